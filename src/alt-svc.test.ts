@@ -0,0 +1,34 @@
+import { AltSvcCache, parseAltSvc } from './alt-svc';
+
+describe('AltSvcCache', () => {
+    it('should parse alternatives with their max age', () => {
+        expect(parseAltSvc('h3=":443"; ma=3600, h3-29="alt.example.com:8443"; persist=1', 0)).toEqual([
+            { protocol: 'h3', host: '', port: 443, expiresAt: 3600 * 1000 },
+            { protocol: 'h3-29', host: 'alt.example.com', port: 8443, expiresAt: 86400 * 1000 }
+        ]);
+    });
+
+    it('should only offer HTTP/3 for an unexpired alternative on the same host and port', () => {
+        let now = 0;
+        const cache = new AltSvcCache(() => now);
+
+        cache.update('https://example.com/page', 'h3=":443"; ma=60');
+        cache.update('https://other.example.com/', 'h3=":8443"');
+        cache.update('http://plain.example.com/', 'h3=":443"');
+
+        expect(cache.supportsHttp3('https://example.com/other')).toBe(true);
+        expect(cache.supportsHttp3('https://other.example.com/')).toBe(false);
+        expect(cache.supportsHttp3('http://plain.example.com/')).toBe(false);
+
+        now = 61 * 1000;
+        expect(cache.supportsHttp3('https://example.com/')).toBe(false);
+    });
+
+    it('should forget an origin on clear', () => {
+        const cache = new AltSvcCache();
+        cache.update('https://example.com/', 'h3=":443"');
+        cache.update('https://example.com/', 'clear');
+
+        expect(cache.get('https://example.com/')).toEqual([]);
+    });
+});
@@ -0,0 +1,106 @@
+// One alternative service a server advertised for its origin
+export interface AltSvcEntry {
+    protocol: string; // ALPN id, e.g. 'h3'
+    host: string; // Empty for the origin's own host
+    port: number;
+    expiresAt: number;
+}
+
+/**
+ * Remembers the Alt-Svc alternatives (RFC 7838) servers advertise, so later requests to the
+ * same origin can go to HTTP/3 directly, the way a browser does after its first visit
+ */
+export class AltSvcCache {
+    private entries = new Map<string, AltSvcEntry[]>();
+
+    constructor(private now: () => number = Date.now) { }
+
+    /**
+     * Record the Alt-Svc header of a response; 'clear' forgets the origin's alternatives
+     */
+    update(url: string, headerValue: string | undefined): void {
+        const origin = getHttpsOrigin(url);
+        if (!origin || !headerValue) {
+            return;
+        }
+
+        if (headerValue.trim() === 'clear') {
+            this.entries.delete(origin);
+            return;
+        }
+
+        const entries = parseAltSvc(headerValue, this.now());
+        if (entries.length > 0) {
+            this.entries.set(origin, entries);
+        }
+    }
+
+    /**
+     * Whether the origin advertised an unexpired HTTP/3 alternative on its own host and port,
+     * which is the only kind curl's --http3 can use
+     */
+    supportsHttp3(url: string): boolean {
+        const origin = getHttpsOrigin(url);
+        if (!origin) {
+            return false;
+        }
+
+        const { hostname, port } = new URL(origin);
+        const now = this.now();
+        return (this.entries.get(origin) || []).some(entry =>
+            entry.protocol === 'h3' &&
+            entry.expiresAt > now &&
+            (entry.host === '' || entry.host === hostname) &&
+            entry.port === Number(port || 443));
+    }
+
+    /**
+     * Alternatives currently known for an origin
+     */
+    get(url: string): AltSvcEntry[] {
+        const origin = getHttpsOrigin(url);
+        const now = this.now();
+        return origin ? (this.entries.get(origin) || []).filter(entry => entry.expiresAt > now) : [];
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
+
+/**
+ * Parse an Alt-Svc header value, e.g. h3=":443"; ma=86400, h3-29="alt.example.com:443"
+ */
+export function parseAltSvc(value: string, now: number = Date.now()): AltSvcEntry[] {
+    const entries: AltSvcEntry[] = [];
+    const pattern = /([!#$%&'*+.^_`|~0-9a-z-]+)="([^"]*)"((?:\s*;\s*[a-z-]+=(?:"[^"]*"|[^,;\s]*))*)/gi;
+
+    for (const match of value.matchAll(pattern)) {
+        const [, protocol, authority, params] = match;
+        const separator = authority.lastIndexOf(':');
+        const port = Number(authority.substring(separator + 1));
+        if (separator < 0 || !Number.isInteger(port) || port <= 0) {
+            continue;
+        }
+
+        // Max age defaults to 24 hours
+        const maxAge = params.match(/;\s*ma="?(\d+)"?/i);
+        entries.push({
+            protocol: decodeURIComponent(protocol),
+            host: authority.substring(0, separator),
+            port,
+            expiresAt: now + (maxAge ? Number(maxAge[1]) : 86400) * 1000
+        });
+    }
+
+    return entries;
+}
+
+function getHttpsOrigin(url: string): string | null {
+    try {
+        const parsed = new URL(url);
+        return parsed.protocol === 'https:' ? parsed.origin : null;
+    } catch {
+        return null;
+    }
+}
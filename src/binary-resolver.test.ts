@@ -0,0 +1,78 @@
+import { chmod, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseCapabilities, probeBinary, resolveBinaryPath } from './binary-resolver';
+import { CurlBinaryError } from './errors';
+
+describe('Binary Resolver', () => {
+    const versionOutput = [
+        'curl 8.1.1 (x86_64-pc-linux-gnu) libcurl/8.1.1 BoringSSL zlib/1.2.11 brotli/1.0.9 zstd/1.5.2 nghttp2/1.56.0',
+        'Release-Date: 2023-05-17',
+        'Protocols: dict file ftp ftps gopher gophers http https imap imaps mqtt pop3 pop3s rtsp smb smbs smtp smtps telnet tftp ws wss',
+        'Features: alt-svc AsynchDNS brotli HSTS HTTP2 HTTPS-proxy IPv6 Largefile libz NTLM SSL threadsafe UnixSockets zstd'
+    ].join('\n');
+    const helpOutput = [
+        'Usage: curl [options...] <url>',
+        '     --alps              Enable ALPS',
+        ' -i, --include           Include protocol response headers in the output',
+        '     --tls-permute-extensions Permute TLS extensions'
+    ].join('\n');
+
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'binary-resolver-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    const createBinary = async (name: string = 'curl-impersonate', mode: number = 0o755) => {
+        const path = join(dir, name);
+        await writeFile(path, `#!/bin/sh\nif [ "$1" = "--version" ]; then echo '${versionOutput.split('\n')[0]}'; echo 'Features: HTTP2'; else echo '${helpOutput.split('\n')[1]}'; fi\n`);
+        await chmod(path, mode);
+        return path;
+    };
+
+    it('should parse version, TLS backend, protocols, features and options', () => {
+        const capabilities = parseCapabilities('/bin/curl', versionOutput, helpOutput);
+
+        expect(capabilities).toMatchObject({
+            path: '/bin/curl',
+            version: '8.1.1',
+            libcurlVersion: '8.1.1',
+            sslBackend: 'BoringSSL'
+        });
+        expect(capabilities.protocols).toContain('https');
+        expect(capabilities.features).toEqual(expect.arrayContaining(['HTTP2', 'alt-svc', 'brotli']));
+        expect(capabilities.options).toEqual(['--alps', '--include', '--tls-permute-extensions']);
+    });
+
+    it('should prefer explicit locations and fail fast when they are wrong', async () => {
+        const binary = await createBinary();
+
+        await expect(resolveBinaryPath({ binariesPath: dir }, {})).resolves.toBe(binary);
+        await expect(resolveBinaryPath({ binaryPath: join(dir, 'missing') }, { PATH: dir }))
+            .rejects.toMatchObject({ code: 'BINARY_NOT_FOUND' });
+
+        await chmod(binary, 0o644);
+        await expect(resolveBinaryPath({}, { CURL_IMPERSONATE_PATH: binary }))
+            .rejects.toMatchObject({ code: 'BINARY_NOT_EXECUTABLE' });
+    });
+
+    it('should fall back to PATH', async () => {
+        const binary = await createBinary();
+
+        await expect(resolveBinaryPath({}, { PATH: `/nonexistent:${dir}` })).resolves.toBe(binary);
+        await expect(resolveBinaryPath({}, { PATH: '/nonexistent' })).rejects.toBeInstanceOf(CurlBinaryError);
+    });
+
+    it('should probe a binary once', async () => {
+        const binary = await createBinary('curl-probe');
+
+        const first = probeBinary(binary);
+        expect(probeBinary(binary)).toBe(first);
+        await expect(first).resolves.toMatchObject({ version: '8.1.1', features: ['HTTP2'], options: ['--alps'] });
+    });
+});
@@ -0,0 +1,152 @@
+import { execFile } from 'child_process';
+import { constants } from 'fs';
+import { access, stat } from 'fs/promises';
+import { delimiter, join, resolve } from 'path';
+import { CurlBinaryError } from './errors';
+import { CurlCapabilities } from './types';
+
+// Environment variable pointing at the curl-impersonate binary
+export const BINARY_PATH_ENV = 'CURL_IMPERSONATE_PATH';
+
+const BINARY_NAME = 'curl-impersonate';
+const DEFAULT_BINARIES_PATH = './binaries';
+const PROBE_TIMEOUT_MS = 10000;
+
+export interface BinaryLocation {
+    binaryPath?: string; // Full path to the binary
+    binariesPath?: string; // Directory holding a binary named curl-impersonate
+}
+
+// Probes are shared by every instance using the same binary
+const probes = new Map<string, Promise<CurlCapabilities>>();
+
+/**
+ * Find the curl-impersonate binary: an explicit binaryPath or binariesPath, then the
+ * CURL_IMPERSONATE_PATH environment variable, then ./binaries, then PATH.
+ * An explicitly configured location that doesn't hold a usable binary is an error, not skipped.
+ */
+export async function resolveBinaryPath(location: BinaryLocation = {}, env: NodeJS.ProcessEnv = process.env): Promise<string> {
+    const explicit: Array<[string, string]> = [];
+    if (location.binaryPath) {
+        explicit.push([location.binaryPath, 'binaryPath']);
+    }
+    if (location.binariesPath) {
+        explicit.push([join(location.binariesPath, BINARY_NAME), 'binariesPath']);
+    }
+    if (env[BINARY_PATH_ENV]) {
+        explicit.push([env[BINARY_PATH_ENV]!, BINARY_PATH_ENV]);
+    }
+
+    for (const [candidate, source] of explicit) {
+        const problem = await checkExecutable(candidate);
+        if (problem) {
+            throw new CurlBinaryError(`curl-impersonate binary from ${source} (${candidate}) ${problem.message}`, problem.code);
+        }
+        return resolve(candidate);
+    }
+
+    const searched = [
+        join(DEFAULT_BINARIES_PATH, BINARY_NAME),
+        ...(env.PATH || '').split(delimiter).filter(Boolean).map(dir => join(dir, BINARY_NAME))
+    ];
+    for (const candidate of searched) {
+        if (!(await checkExecutable(candidate))) {
+            return resolve(candidate);
+        }
+    }
+
+    throw new CurlBinaryError(
+        `curl-impersonate binary not found; set binaryPath, binariesPath or ${BINARY_PATH_ENV}, or add it to PATH. Searched: ${searched.join(', ')}`,
+        'BINARY_NOT_FOUND'
+    );
+}
+
+/**
+ * Run the binary once with --version and --help all and read what it supports; cached per path
+ */
+export function probeBinary(path: string): Promise<CurlCapabilities> {
+    let probe = probes.get(path);
+    if (!probe) {
+        probe = runProbe(path);
+        // A failed probe (e.g. binary being replaced) may be retried later
+        probe.catch(() => probes.delete(path));
+        probes.set(path, probe);
+    }
+    return probe;
+}
+
+/**
+ * Parse `curl --version` output, plus the option list from `curl --help all` when available
+ */
+export function parseCapabilities(path: string, versionOutput: string, helpOutput: string = ''): CurlCapabilities {
+    const lines = versionOutput.split(/\r?\n/);
+    const header = lines[0] || '';
+    const listed = (label: string) => {
+        const line = lines.find(item => item.startsWith(`${label}:`));
+        return line ? line.substring(label.length + 1).trim().split(/\s+/).filter(Boolean) : [];
+    };
+
+    // curl 8.1.1 (x86_64-pc-linux-gnu) libcurl/8.1.1 BoringSSL zlib/1.2.11 brotli/1.0.9 nghttp2/1.56.0
+    const components = header.split(/\s+/).slice(3);
+    const sslBackend = components.find(item => /ssl|tls/i.test(item) && !item.startsWith('libssh'));
+
+    const options = new Set<string>();
+    for (const match of helpOutput.matchAll(/(?:^|[\s,])(--[a-z0-9][a-z0-9.-]*)/gim)) {
+        options.add(match[1]);
+    }
+
+    return {
+        path,
+        version: header.match(/^curl\s+(\S+)/)?.[1] || '',
+        libcurlVersion: header.match(/libcurl\/(\S+)/)?.[1],
+        sslBackend,
+        protocols: listed('Protocols'),
+        features: listed('Features'),
+        options: [...options]
+    };
+}
+
+async function runProbe(path: string): Promise<CurlCapabilities> {
+    let versionOutput: string;
+    try {
+        versionOutput = await run(path, ['--version']);
+    } catch (error) {
+        throw new CurlBinaryError(`Could not run ${path} --version: ${(error as Error).message}`, 'PROBE_FAILED');
+    }
+    if (!/^curl\s/.test(versionOutput)) {
+        throw new CurlBinaryError(`${path} does not look like curl: ${versionOutput.split('\n')[0]}`, 'PROBE_FAILED');
+    }
+
+    // Older builds may not know --help all; without the option list nothing gets checked
+    const helpOutput = await run(path, ['--help', 'all']).catch(() => '');
+    return parseCapabilities(path, versionOutput, helpOutput);
+}
+
+function run(path: string, args: string[]): Promise<string> {
+    return new Promise((resolvePromise, reject) => {
+        execFile(path, args, { timeout: PROBE_TIMEOUT_MS, maxBuffer: 1024 * 1024 }, (error, stdout) => {
+            if (error) {
+                reject(error);
+            } else {
+                resolvePromise(stdout);
+            }
+        });
+    });
+}
+
+async function checkExecutable(path: string): Promise<{ code: 'BINARY_NOT_FOUND' | 'BINARY_NOT_EXECUTABLE'; message: string } | null> {
+    try {
+        if (!(await stat(path)).isFile()) {
+            return { code: 'BINARY_NOT_FOUND', message: 'is not a file' };
+        }
+    } catch {
+        return { code: 'BINARY_NOT_FOUND', message: 'does not exist' };
+    }
+
+    try {
+        await access(path, constants.X_OK);
+        return null;
+    } catch {
+        return { code: 'BINARY_NOT_EXECUTABLE', message: 'is not executable' };
+    }
+}
@@ -0,0 +1,38 @@
+import { decodeBody, detectCharset } from './charset';
+
+// "日本" in Shift_JIS, "Привет" in windows-1251, "café" in ISO-8859-1
+const SHIFT_JIS = Buffer.from([0x93, 0xfa, 0x96, 0x7b]);
+const WINDOWS_1251 = Buffer.from([0xcf, 0xf0, 0xe8, 0xe2, 0xe5, 0xf2]);
+const LATIN1 = Buffer.from([0x63, 0x61, 0x66, 0xe9]);
+
+describe('Charset', () => {
+    it('should decode with the Content-Type charset', () => {
+        expect(decodeBody(SHIFT_JIS, 'text/plain; charset=Shift_JIS')).toEqual({ text: '日本', encoding: 'shift_jis' });
+        expect(decodeBody(WINDOWS_1251, 'text/html;charset="windows-1251"').text).toBe('Привет');
+        expect(decodeBody(LATIN1, 'text/html; charset=iso-8859-1')).toEqual({ text: 'café', encoding: 'windows-1252' });
+    });
+
+    it('should fall back to meta declarations in HTML', () => {
+        const charsetMeta = Buffer.concat([Buffer.from('<html><head><meta charset="gbk"><title>'), Buffer.from([0xc4, 0xe3, 0xba, 0xc3])]);
+        const httpEquiv = Buffer.concat([
+            Buffer.from('<meta http-equiv="Content-Type" content="text/html; charset=windows-1251">'),
+            WINDOWS_1251
+        ]);
+
+        expect(decodeBody(charsetMeta, 'text/html').text).toContain('<title>你好');
+        expect(decodeBody(httpEquiv).text).toMatch(/Привет$/);
+        expect(detectCharset(httpEquiv, 'application/json')).toBe('utf-8');
+        expect(detectCharset(Buffer.from('<meta charset="utf-16">'), 'text/html')).toBe('utf-8');
+    });
+
+    it('should sniff the byte order mark and default to UTF-8', () => {
+        expect(decodeBody(Buffer.from([0xff, 0xfe, 0x41, 0x00]))).toEqual({ text: 'A', encoding: 'utf-16le' });
+        expect(decodeBody(Buffer.from([0xef, 0xbb, 0xbf, 0x41])).text).toBe('A');
+        expect(decodeBody(Buffer.from('héllo'), 'text/plain; charset=bogus')).toEqual({ text: 'héllo', encoding: 'utf-8' });
+    });
+
+    it('should let a forced charset win', () => {
+        expect(decodeBody(WINDOWS_1251, 'text/html; charset=utf-8', 'cp1251').text).toBe('Привет');
+        expect(() => decodeBody(LATIN1, undefined, 'no-such-charset')).toThrow('Unsupported charset: no-such-charset');
+    });
+});
@@ -0,0 +1,91 @@
+// How far into the body browsers look for a <meta> charset declaration
+const META_PRESCAN_BYTES = 1024;
+
+export interface DecodedBody {
+    text: string;
+    encoding: string; // WHATWG name of the encoding used, e.g. 'utf-8', 'shift_jis', 'windows-1252'
+}
+
+/**
+ * Decode a response body: with the forced charset if given, else the Content-Type charset,
+ * else a <meta charset> or http-equiv declaration in an HTML body, else its byte order mark,
+ * else UTF-8. Labels are resolved like browsers do, so iso-8859-1 decodes as windows-1252.
+ */
+export function decodeBody(rawBody: Buffer, contentType?: string, forcedCharset?: string): DecodedBody {
+    let encoding: string;
+    if (forcedCharset) {
+        const forced = normalizeCharset(forcedCharset);
+        if (!forced) {
+            throw new TypeError(`Unsupported charset: ${forcedCharset}`);
+        }
+        encoding = forced;
+    } else {
+        encoding = detectCharset(rawBody, contentType);
+    }
+
+    return { text: new TextDecoder(encoding).decode(rawBody), encoding };
+}
+
+/**
+ * Encoding a body should be decoded with, from its Content-Type, <meta> tags and BOM
+ */
+export function detectCharset(rawBody: Buffer, contentType: string = ''): string {
+    const declared = normalizeCharset(contentType.match(/;\s*charset\s*=\s*"?([^";\s]+)/i)?.[1]);
+    if (declared) {
+        return declared;
+    }
+
+    const mediaType = contentType.split(';')[0].trim().toLowerCase();
+    if (!mediaType || mediaType === 'text/html' || mediaType === 'application/xhtml+xml') {
+        const meta = getMetaCharset(rawBody);
+        if (meta) {
+            return meta;
+        }
+    }
+
+    return getBomCharset(rawBody) || 'utf-8';
+}
+
+/**
+ * WHATWG encoding name for a charset label, or undefined when the label is unknown
+ */
+export function normalizeCharset(label: string | undefined): string | undefined {
+    if (!label) {
+        return undefined;
+    }
+    try {
+        return new TextDecoder(label.trim()).encoding;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Charset from <meta charset="..."> or <meta http-equiv="Content-Type" content="...; charset=...">
+ * in the first KB of an HTML document
+ */
+function getMetaCharset(rawBody: Buffer): string | undefined {
+    // Every encoding a page may declare this way is ASCII-compatible, so latin1 reads the markup safely
+    const head = rawBody.subarray(0, META_PRESCAN_BYTES).toString('latin1');
+    for (const match of head.matchAll(/<meta\b[^>]*?charset\s*=\s*["']?\s*([a-z0-9_.:-]+)/gi)) {
+        const charset = normalizeCharset(match[1]);
+        if (charset) {
+            // A page can't declare itself UTF-16 from inside an ASCII-compatible prescan
+            return charset.startsWith('utf-16') ? 'utf-8' : charset;
+        }
+    }
+    return undefined;
+}
+
+function getBomCharset(rawBody: Buffer): string | undefined {
+    if (rawBody.length >= 3 && rawBody[0] === 0xef && rawBody[1] === 0xbb && rawBody[2] === 0xbf) {
+        return 'utf-8';
+    }
+    if (rawBody.length >= 2 && rawBody[0] === 0xfe && rawBody[1] === 0xff) {
+        return 'utf-16be';
+    }
+    if (rawBody.length >= 2 && rawBody[0] === 0xff && rawBody[1] === 0xfe) {
+        return 'utf-16le';
+    }
+    return undefined;
+}
@@ -0,0 +1,92 @@
+import { CurlImpersonate } from './curl-impersonate';
+import { MockTransport } from './mock-transport';
+import { ProcessScheduler } from './process-scheduler';
+import { HttpResponse } from './types';
+
+describe('CurlClient', () => {
+    let transport: MockTransport;
+    const create = (defaults = {}) => CurlImpersonate.create(defaults, { transport, scheduler: new ProcessScheduler() });
+
+    beforeEach(() => {
+        transport = new MockTransport();
+    });
+
+    it('should apply baseURL, params and default options', async () => {
+        transport.on(url => url.startsWith('https://api.example.com/v1/items'), { body: '[]' });
+        const client = create({
+            baseURL: 'https://api.example.com/v1/',
+            params: { key: 'k', lang: 'en' },
+            headers: { 'X-Api-Key': 'secret', Accept: 'application/json' },
+            fingerprint: 'chrome131-android'
+        });
+
+        await client.request('/items', { params: { lang: 'de', tag: ['a', 'b'], skip: undefined }, headers: { accept: 'text/plain' } });
+        await client.request('https://api.example.com/v1/items?page=2');
+
+        expect(transport.requests.map(request => request.url)).toEqual([
+            'https://api.example.com/v1/items?key=k&lang=de&tag=a&tag=b',
+            'https://api.example.com/v1/items?page=2&key=k&lang=en'
+        ]);
+        expect(transport.requests[0].headers).toMatchObject({ 'x-api-key': 'secret', accept: 'text/plain' });
+        expect(transport.requests[0].headers['user-agent']).toContain('Android');
+    });
+
+    it('should let interceptors change requests and replace responses', async () => {
+        transport.on('https://example.com/a', { body: 'network' });
+        const client = create();
+        const cache = new Map<string, HttpResponse>();
+
+        client.use({
+            onRequest: context => {
+                context.options.headers = { ...context.options.headers, 'X-Trace': String(context.attempt) };
+                return cache.get(context.url);
+            },
+            onResponse: (response, context) => {
+                cache.set(context.url, response);
+            }
+        });
+        client.use({ onResponse: response => ({ ...response, body: response.body.toUpperCase() }) });
+
+        const first = await client.request('https://example.com/a');
+        const second = await client.request('https://example.com/a');
+
+        expect(first.body).toBe('NETWORK');
+        expect(second.body).toBe('NETWORK');
+        expect(transport.requests).toHaveLength(1);
+        expect(transport.requests[0].headers['x-trace']).toBe('1');
+    });
+
+    it('should retry from onError with the changed context', async () => {
+        transport
+            .fail('https://primary.example.com/', 7)
+            .on('https://backup.example.com/', { body: 'ok' });
+        const client = create();
+        const remove = client.use({
+            onError: (error, context) => {
+                if (error.curlCode === 7 && context.attempt < 3) {
+                    context.url = 'https://backup.example.com/';
+                    return context.retry();
+                }
+            }
+        });
+
+        const response = await client.request('https://primary.example.com/');
+        expect(response.body).toBe('ok');
+        expect(transport.requests.map(request => request.url)).toEqual(['https://primary.example.com/', 'https://backup.example.com/']);
+
+        remove();
+        await expect(client.request('https://primary.example.com/')).rejects.toMatchObject({ curlCode: 7 });
+    });
+
+    it('should extend defaults and interceptors into a new client', async () => {
+        transport.on(() => true, {});
+        const seen: string[] = [];
+        const client = create({ baseURL: 'https://example.com', params: { a: 1 } });
+        client.use({ onRequest: context => { seen.push(context.url); } });
+
+        await client.extend({ baseURL: 'https://other.example.com/api', params: { b: 2 } }).request('x');
+
+        expect(seen).toEqual(['https://other.example.com/api/x']);
+        expect(transport.requests[0].url).toBe('https://other.example.com/api/x?a=1&b=2');
+    });
+});
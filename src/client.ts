@@ -0,0 +1,206 @@
+import type { CurlImpersonate } from './curl-impersonate';
+import { HttpResponse, JsonResponse, RequestOptions } from './types';
+
+// Query parameters; arrays repeat the key, null and undefined values are left out
+export type QueryParams =
+    | Record<string, string | number | boolean | null | undefined | Array<string | number | boolean>>
+    | URLSearchParams;
+
+export interface ClientRequestOptions extends RequestOptions {
+    params?: QueryParams; // Added to the URL's query; replace default params of the same name
+    fingerprint?: string; // Fingerprint name; overrides the client default
+}
+
+export interface ClientDefaults extends ClientRequestOptions {
+    baseURL?: string; // Prefix for relative request URLs
+}
+
+// The request as it passes through the interceptors; they may change any of it in place
+export interface InterceptorContext {
+    url: string; // Resolved against baseURL, without params
+    params?: QueryParams;
+    options: RequestOptions;
+    fingerprint?: string;
+    attempt: number; // 1 for the first try, incremented by retry()
+    retry(): Promise<HttpResponse>; // Run the request again, from the first onRequest, with the current context
+}
+
+/**
+ * Hooks run around every request of a client, in the order they were added.
+ * onRequest may return a response to skip the network (e.g. from a cache); onResponse may
+ * replace the response; onError may recover with a response (e.g. from context.retry())
+ * or throw, and returns nothing to leave the error to the next interceptor.
+ */
+export interface Interceptor {
+    onRequest?(context: InterceptorContext): HttpResponse | void | Promise<HttpResponse | void>;
+    onResponse?(response: HttpResponse, context: InterceptorContext): HttpResponse | void | Promise<HttpResponse | void>;
+    onError?(error: any, context: InterceptorContext): HttpResponse | void | Promise<HttpResponse | void>;
+}
+
+/**
+ * A CurlImpersonate with default options and interceptors, created by CurlImpersonate.create()
+ */
+export class CurlClient {
+    private interceptors: Interceptor[] = [];
+
+    constructor(
+        private curl: CurlImpersonate,
+        readonly defaults: ClientDefaults = {}
+    ) { }
+
+    /**
+     * Add an interceptor; returns a function that removes it again
+     */
+    use(interceptor: Interceptor): () => void {
+        this.interceptors.push(interceptor);
+        return () => {
+            this.interceptors = this.interceptors.filter(item => item !== interceptor);
+        };
+    }
+
+    /**
+     * New client on the same CurlImpersonate, with these defaults merged over this client's
+     * and a copy of its interceptors
+     */
+    extend(defaults: ClientDefaults): CurlClient {
+        const client = new CurlClient(this.curl, {
+            ...mergeOptions(this.defaults, defaults),
+            params: mergeParams(this.defaults.params, defaults.params)
+        });
+        this.interceptors.forEach(interceptor => client.use(interceptor));
+        return client;
+    }
+
+    async request(url: string, options: ClientRequestOptions = {}): Promise<HttpResponse> {
+        const { baseURL, params: defaultParams, fingerprint: defaultFingerprint, ...defaultOptions } = this.defaults;
+        const { params, fingerprint, ...requestOptions } = options;
+
+        return this.run({
+            url: resolveUrl(baseURL, url),
+            params: mergeParams(defaultParams, params),
+            options: mergeOptions(defaultOptions, requestOptions),
+            fingerprint: fingerprint ?? defaultFingerprint,
+            attempt: 1
+        });
+    }
+
+    async requestJson<T = any>(url: string, options: ClientRequestOptions = {}): Promise<JsonResponse<T>> {
+        const response = await this.request(url, { ...options, responseType: 'text' });
+
+        try {
+            return { ...response, data: JSON.parse(response.body) };
+        } catch (error) {
+            throw new Error(`Failed to parse JSON response: ${error}`);
+        }
+    }
+
+    private async run(state: Omit<InterceptorContext, 'retry'>): Promise<HttpResponse> {
+        const context: InterceptorContext = {
+            ...state,
+            retry: () => this.run({
+                url: context.url,
+                params: context.params,
+                options: { ...context.options },
+                fingerprint: context.fingerprint,
+                attempt: context.attempt + 1
+            })
+        };
+
+        try {
+            let response: HttpResponse | undefined;
+            for (const interceptor of this.interceptors) {
+                response = (await interceptor.onRequest?.(context)) || undefined;
+                if (response) {
+                    break;
+                }
+            }
+
+            response = response || await this.curl.request(appendParams(context.url, context.params), context.options, context.fingerprint);
+
+            for (const interceptor of this.interceptors) {
+                response = (await interceptor.onResponse?.(response, context)) || response;
+            }
+            return response;
+        } catch (error) {
+            let lastError = error;
+            for (const interceptor of this.interceptors) {
+                if (!interceptor.onError) {
+                    continue;
+                }
+                try {
+                    const recovered = await interceptor.onError(lastError, context);
+                    if (recovered) {
+                        return recovered;
+                    }
+                } catch (thrown) {
+                    lastError = thrown;
+                }
+            }
+            throw lastError;
+        }
+    }
+}
+
+/**
+ * Join a relative URL onto baseURL the way HTTP clients do: base path kept, one slash between.
+ * Absolute URLs are used as they are.
+ */
+function resolveUrl(baseURL: string | undefined, url: string): string {
+    if (!baseURL || /^[a-z][a-z\d+.-]*:\/\//i.test(url)) {
+        return url;
+    }
+    return url ? `${baseURL.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}` : baseURL;
+}
+
+function appendParams(url: string, params: QueryParams | undefined): string {
+    const entries = toEntries(params);
+    if (entries.length === 0) {
+        return url;
+    }
+
+    const parsed = new URL(url);
+    for (const [key, value] of entries) {
+        parsed.searchParams.append(key, value);
+    }
+    return parsed.toString();
+}
+
+function mergeParams(defaults: QueryParams | undefined, params: QueryParams | undefined): QueryParams | undefined {
+    if (!defaults || !params) {
+        return params || defaults;
+    }
+    // Request params replace default params of the same name
+    const overridden = new Set(toEntries(params).map(([key]) => key));
+    return new URLSearchParams([...toEntries(defaults).filter(([key]) => !overridden.has(key)), ...toEntries(params)]);
+}
+
+function toEntries(params: QueryParams | undefined): Array<[string, string]> {
+    if (!params) {
+        return [];
+    }
+    if (params instanceof URLSearchParams) {
+        return [...params.entries()];
+    }
+    return Object.entries(params).flatMap(([key, value]): Array<[string, string]> => {
+        if (value === null || value === undefined) {
+            return [];
+        }
+        return (Array.isArray(value) ? value : [value]).map(item => [key, String(item)]);
+    });
+}
+
+/**
+ * Request options over defaults; headers (case-insensitively) and cookies are merged, the rest replaced
+ */
+function mergeOptions<T extends RequestOptions>(defaults: T, options: T): T {
+    const overridden = new Set(Object.keys(options.headers || {}).map(name => name.toLowerCase()));
+    const defaultHeaders = Object.entries(defaults.headers || {}).filter(([name]) => !overridden.has(name.toLowerCase()));
+    const headers = defaults.headers || options.headers
+        ? { ...Object.fromEntries(defaultHeaders), ...options.headers }
+        : undefined;
+    const cookies = defaults.cookies || options.cookies
+        ? { ...defaults.cookies, ...options.cookies }
+        : undefined;
+
+    return { ...defaults, ...options, headers, cookies };
+}
@@ -1,18 +1,27 @@
 import { debug } from 'console';
 import { CurlImpersonate } from './curl-impersonate';
 import { debugLogger } from './debug';
+import { AbortError, CurlBinaryError, CurlProxyError, SchedulerError, createAbortError, throwIfAborted } from './errors';
 import {
     RequestOptions,
     HttpResponse,
-    CurlError
+    CurlError,
+    ProxyConfig
 } from './types';
 import { FingerprintConfig } from './fingerprint-config';
-import { randomUUID } from 'crypto';
+import { Transport } from './transport';
+import { AltSvcCache } from './alt-svc';
+import { Cookie, CookieJar } from './cookie-jar';
+import { decodeBody } from './charset';
+import { parseProxy } from './proxy';
+import { randomBytes, randomUUID } from 'crypto';
+import { isIPv6 } from 'net';
 import { parse } from 'node-html-parser';
+import { Readable } from 'stream';
 
 // HTML parsing utilities
 export interface HtmlParseOptions {
-    encoding?: string;
+    encoding?: string; // Re-decode the raw body with this charset instead of the one detected for the response
     normalizeWhitespace?: boolean;
 }
 
@@ -52,7 +61,8 @@ export class ProxyError extends Error {
         message: string,
         public code: 'PROXY_REFUSED' | 'PROXY_TIMEOUT' | 'PROXY_AUTH_FAILED' | 'PROXY_DNS_ERROR' | 'PROXY_CONNECTION_ERROR',
         public proxy?: ProxyConfig,
-        public retryable: boolean = true
+        public retryable: boolean = true,
+        public cause?: Error // The CurlProxyError, with the curl code, request and partial response
     ) {
         super(message);
         this.name = 'ProxyError';
@@ -66,28 +76,21 @@ export interface SessionConfig {
     autoRotate?: boolean;
     rotateOnError?: boolean;
     maxRetries?: number;
+    trackAltSvc?: boolean; // Remember Alt-Svc per session and move 'auto' requests to HTTP/3 like a browser
 }
 
 export interface CloudflareConfig {
     enabled: boolean;
-    autoRetry?: boolean;
-    maxRetries?: number;
+    autoRetry?: boolean; // Retry failed requests whose error is retryable: transport, proxy and Cloudflare errors, rejected responses
+    maxRetries?: number; // Retries after the first attempt
+    retryDelay?: number; // milliseconds before the first retry, doubled for each one after it
+    retryMethods?: Array<NonNullable<RequestOptions['method']>>; // Methods retried; the idempotent ones by default, so a failed POST isn't sent twice
     challengeTimeout?: number;
     jsChallenge?: boolean;
     captchaChallenge?: boolean;
     fingerprintRotation?: boolean;
 }
 
-export interface ProxyConfig {
-    host: string;
-    port: number;
-    protocol: 'http' | 'https' | 'socks4' | 'socks5';
-    username?: string;
-    password?: string;
-    failCount?: number;
-    lastUsed?: number;
-}
-
 export interface ProxyRotationConfig {
     enabled: boolean;
     proxies: ProxyConfig[];
@@ -97,38 +100,56 @@ export interface ProxyRotationConfig {
     strategy: 'round-robin' | 'random' | 'failover';
 }
 
+// Source addresses sessions connect from, e.g. the addresses of an IPv6 /64 routed to this host
+export interface LocalAddressRotationConfig {
+    enabled: boolean;
+    addresses: string[];
+    ipv6Prefix?: string; // e.g. '2001:db8:1:2::/64'; each session gets a random address in it, instead of one from addresses
+    strategy: 'round-robin' | 'random';
+}
+
 export interface ScrapingSession {
     id: string;
-    cookies: Record<string, string>;
+    cookieJar: CookieJar;
     userAgent: string;
     fingerprint: FingerprintConfig;
     proxy?: ProxyConfig;
+    localAddress?: string;
     createdAt: number;
     lastUsed: number;
     requestCount: number;
     errorCount: number;
+    altSvc?: AltSvcCache;
+    unboundCookies?: Record<string, string>; // Restored by name only (the old cookie format); bound to the site of the next request
 }
 
 export interface CloudflareScraperConfig {
     session?: Partial<SessionConfig>;
     cloudflare?: Partial<CloudflareConfig>;
-    proxyRotation?: Partial<ProxyRotationConfig>;
+    proxyRotation?: Partial<Omit<ProxyRotationConfig, 'proxies'>> & { proxies?: Array<ProxyConfig | string> }; // Strings are read with parseProxy()
+    localAddressRotation?: Partial<LocalAddressRotationConfig>;
+    binaryPath?: string;
     binariesPath?: string;
+    transport?: Transport; // e.g. a MockTransport, to test scrapers offline
 }
 
 export class CloudflareScraper {
     private curlImpersonate: CurlImpersonate;
     private sessions: Map<string, ScrapingSession> = new Map();
     private proxyIndex: number = 0;
+    private localAddressIndex: number = 0;
     private config: {
         session: SessionConfig;
         cloudflare: CloudflareConfig;
         proxyRotation: ProxyRotationConfig;
+        localAddressRotation: LocalAddressRotationConfig;
     };
 
     constructor(config: CloudflareScraperConfig = {}) {
         this.curlImpersonate = new CurlImpersonate({
-            binariesPath: config.binariesPath || './binaries'
+            binaryPath: config.binaryPath,
+            binariesPath: config.binariesPath,
+            transport: config.transport
         });
 
         this.config = {
@@ -144,6 +165,8 @@ export class CloudflareScraper {
                 enabled: true,
                 autoRetry: true,
                 maxRetries: 3,
+                retryDelay: 1000,
+                retryMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
                 challengeTimeout: 10000,
                 jsChallenge: true,
                 captchaChallenge: false,
@@ -152,12 +175,18 @@ export class CloudflareScraper {
             },
             proxyRotation: {
                 enabled: false,
-                proxies: [],
                 autoSwitch: true,
                 maxFailures: 3,
                 cooldownTime: 60000, // 1 minute
                 strategy: 'round-robin',
-                ...config.proxyRotation
+                ...config.proxyRotation,
+                proxies: (config.proxyRotation?.proxies || []).map(proxy => typeof proxy === 'string' ? parseProxy(proxy) : proxy)
+            },
+            localAddressRotation: {
+                enabled: false,
+                addresses: [],
+                strategy: 'round-robin',
+                ...config.localAddressRotation
             }
         };
     }
@@ -178,13 +207,16 @@ export class CloudflareScraper {
 
         const session: ScrapingSession = {
             id: sessionId,
-            cookies: {},
+            cookieJar: new CookieJar(),
             userAgent: selectedFingerprint.headers['User-Agent'],
             fingerprint: selectedFingerprint,
             createdAt: Date.now(),
             lastUsed: Date.now(),
             requestCount: 0,
-            errorCount: 0
+            errorCount: 0,
+            proxy: this.getNextProxy(),
+            localAddress: this.getNextLocalAddress(),
+            altSvc: this.config.session.trackAltSvc ? new AltSvcCache() : undefined
         };
 
         this.sessions.set(sessionId, session);
@@ -233,40 +265,83 @@ export class CloudflareScraper {
             session = this.createSession();
         }
 
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.requestWithSession(url, options, session);
+            } catch (error: any) {
+                const failure = this.handleRequestError(error, session);
+                if (!this.config.cloudflare.autoRetry || attempt > this.config.cloudflare.maxRetries! || !this.isRetryable(failure, options)) {
+                    throw failure;
+                }
+
+                await this.delay(this.config.cloudflare.retryDelay! * 2 ** (attempt - 1), options.signal);
+            }
+        }
+    }
+
+    private async requestWithSession(url: string, options: RequestOptions, session: ScrapingSession): Promise<HttpResponse> {
+        if (session.unboundCookies) {
+            this.bindLegacyCookies(session, session.unboundCookies, url);
+        }
+
         const fingerprintName = this.getFingerprintName(session.fingerprint);
+        const response = await this.curlImpersonate.request(
+            url,
+            {
+                altSvc: session.altSvc,
+                cookieJar: session.cookieJar,
+                proxy: session.proxy,
+                localAddress: session.localAddress,
+                ...options
+            },
+            fingerprintName
+        );
 
-        try {
-            const response = await this.curlImpersonate.request(url, options, fingerprintName);
+        // Check for Cloudflare challenges
+        if (this.isCloudflareChallenge(response)) {
+            throw this.handleCloudflareChallenge(response, session);
+        }
 
-            // Update session cookies
-            this.updateSessionCookies(session, response);
+        return response;
+    }
 
-            // Check for Cloudflare challenges
-            if (this.isCloudflareChallenge(response)) {
-                throw this.handleCloudflareChallenge(response, session);
-            }
+    /**
+     * Count a failed request against its session, and its proxy when the proxy failed, rotating the
+     * session once it has failed session.maxRetries times; returns the error to throw or retry on
+     */
+    private handleRequestError(error: any, session: ScrapingSession): any {
+        // Cancellation, a saturated process queue and a missing binary are not failures of the session or proxy
+        if (error instanceof AbortError || error instanceof SchedulerError || error instanceof CurlBinaryError) {
+            return error;
+        }
 
-            return response;
-        } catch (error: any) {
-            session.errorCount++;
+        session.errorCount++;
 
-            // Handle proxy errors
-            if (this.isProxyError(error)) {
-                throw this.handleProxyError(error, session);
-            }
+        // Handle proxy errors
+        const failure = this.isProxyError(error) ? this.handleProxyError(error, session) : error;
 
-            // Handle Cloudflare errors
-            if (this.isCloudflareError(error)) {
-                throw error;
-            }
+        // Rotate session on error if configured
+        if (this.config.session.rotateOnError && session.errorCount >= this.config.session.maxRetries!) {
+            this.rotateSession(session);
+        }
 
-            // Rotate session on error if configured
-            if (this.config.session.rotateOnError && session.errorCount >= this.config.session.maxRetries!) {
-                this.rotateSession(session);
-            }
+        return failure;
+    }
 
-            throw error;
+    private isRetryable(error: any, options: RequestOptions): boolean {
+        if (error instanceof AbortError || error instanceof SchedulerError || error instanceof CurlBinaryError) {
+            return false;
         }
+        // The first attempt consumed a streamed body, so there is nothing left to send again
+        if (options.body instanceof Readable || typeof (options.body as any)?.[Symbol.asyncIterator] === 'function') {
+            return false;
+        }
+        const hasBody = options.body != null || options.json !== undefined || !!options.form || !!options.formData;
+        const method = options.method || (hasBody ? 'POST' : 'GET');
+        if (!this.config.cloudflare.retryMethods!.includes(method)) {
+            return false;
+        }
+        return error?.retryable === true;
     }
 
     private getFingerprintName(fingerprint: FingerprintConfig): string {
@@ -297,25 +372,17 @@ export class CloudflareScraper {
         return new CloudflareError(message, 'CF_CHALLENGE', response);
     }
 
-    private isProxyError(error: any): boolean {
-        return error.proxyFailed ||
-            error.code?.includes('PROXY') ||
-            error.message?.includes('proxy');
+    private isProxyError(error: any): error is CurlProxyError {
+        return error instanceof CurlProxyError;
     }
 
-    private handleProxyError(error: any, session: ScrapingSession): ProxyError {
+    private handleProxyError(error: CurlProxyError, session: ScrapingSession): ProxyError {
         if (session.proxy) {
             this.markProxyFailed(session.proxy);
         }
 
         const message = `Proxy error: ${error.message}`;
-        return new ProxyError(message, 'PROXY_CONNECTION_ERROR', session.proxy);
-    }
-
-    private isCloudflareError(error: any): boolean {
-        return error instanceof CloudflareError ||
-            error.code?.includes('CF_') ||
-            error.message?.includes('cloudflare');
+        return new ProxyError(message, 'PROXY_CONNECTION_ERROR', session.proxy, error.retryable, error);
     }
 
     private getNextProxy(): ProxyConfig | undefined {
@@ -343,6 +410,58 @@ export class CloudflareScraper {
         }
     }
 
+    private getNextLocalAddress(): string | undefined {
+        const { enabled, addresses, ipv6Prefix, strategy } = this.config.localAddressRotation;
+        if (!enabled) {
+            return undefined;
+        }
+        if (ipv6Prefix) {
+            return this.randomAddressInPrefix(ipv6Prefix);
+        }
+        if (addresses.length === 0) {
+            return undefined;
+        }
+
+        if (strategy === 'random') {
+            return addresses[Math.floor(Math.random() * addresses.length)];
+        }
+        const address = addresses[this.localAddressIndex % addresses.length];
+        this.localAddressIndex = (this.localAddressIndex + 1) % addresses.length;
+        return address;
+    }
+
+    /**
+     * Random IPv6 address inside a prefix such as 2001:db8:1:2::/64
+     */
+    private randomAddressInPrefix(prefix: string): string {
+        const [network, lengthText] = prefix.split('/');
+        const length = Number(lengthText);
+        if (!isIPv6(network) || !Number.isInteger(length) || length < 0 || length > 128) {
+            throw new Error(`Invalid IPv6 prefix: ${prefix}`);
+        }
+
+        // Expand :: to the missing zero groups
+        const [head, tail = ''] = network.split('::');
+        const headGroups = head ? head.split(':') : [];
+        const tailGroups = tail ? tail.split(':') : [];
+        const groups = network.includes('::')
+            ? [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups]
+            : headGroups;
+
+        const bytes = Buffer.alloc(16);
+        groups.forEach((group, index) => bytes.writeUInt16BE(parseInt(group, 16), index * 2));
+
+        // Keep the prefix bits and randomize the rest
+        const random = randomBytes(16);
+        for (let index = 0; index < 16; index++) {
+            const keptBits = Math.min(Math.max(length - index * 8, 0), 8);
+            const mask = (0xff << (8 - keptBits)) & 0xff;
+            bytes[index] = (bytes[index] & mask) | (random[index] & ~mask & 0xff);
+        }
+
+        return Array.from({ length: 8 }, (_, index) => bytes.readUInt16BE(index * 2).toString(16)).join(':');
+    }
+
     private markProxyFailed(proxy?: ProxyConfig): void {
         if (!proxy) return;
 
@@ -371,29 +490,31 @@ export class CloudflareScraper {
             session.proxy = newProxy;
         }
 
+        // And a new source address
+        const newLocalAddress = this.getNextLocalAddress();
+        if (newLocalAddress) {
+            session.localAddress = newLocalAddress;
+        }
+
         session.errorCount = 0;
         session.lastUsed = Date.now();
 
         return session;
     }
 
-    private updateSessionCookies(session: ScrapingSession, response: HttpResponse): void {
-        const setCookieHeaders = response.headers['set-cookie'];
-        if (setCookieHeaders) {
-            const cookies = Array.isArray(setCookieHeaders) ? setCookieHeaders : [setCookieHeaders];
-
-            cookies.forEach(cookie => {
-                const [nameValue] = cookie.split(';');
-                const [name, value] = nameValue.split('=');
-                if (name && value) {
-                    session.cookies[name.trim()] = value.trim();
-                }
-            });
-        }
-    }
-
-    private delay(ms: number): Promise<void> {
-        return new Promise(resolve => setTimeout(resolve, ms));
+    private delay(ms: number, signal?: AbortSignal): Promise<void> {
+        throwIfAborted(signal);
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(createAbortError(signal!));
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
     }
 
     getAvailableFingerprints(): string[] {
@@ -437,10 +558,11 @@ export class CloudflareScraper {
         const session = this.getSession(sessionId);
         return {
             id: session.id,
-            cookies: session.cookies,
+            cookies: session.cookieJar.toJSON(),
             userAgent: session.userAgent,
             fingerprint: session.fingerprint,
             proxy: session.proxy,
+            localAddress: session.localAddress,
             createdAt: session.createdAt,
             lastUsed: session.lastUsed,
             requestCount: session.requestCount,
@@ -448,30 +570,72 @@ export class CloudflareScraper {
         };
     }
 
-    restoreSessionState(sessionState: any): void {
+    /**
+     * Restore a session saved with getSessionState. Cookies saved by name only, as sessions stored
+     * them before they had a cookie jar, become host-only cookies for url, or without one for the
+     * site the session requests next.
+     */
+    restoreSessionState(sessionState: any, url?: string): void {
         const session: ScrapingSession = {
             id: sessionState.id,
-            cookies: sessionState.cookies || {},
+            cookieJar: new CookieJar(),
             userAgent: sessionState.userAgent || '',
             fingerprint: sessionState.fingerprint,
             proxy: sessionState.proxy,
+            localAddress: sessionState.localAddress,
             createdAt: sessionState.createdAt || Date.now(),
             lastUsed: sessionState.lastUsed || Date.now(),
             requestCount: sessionState.requestCount || 0,
             errorCount: sessionState.errorCount || 0
         };
+        this.setSessionCookies(session, sessionState.cookies || [], url);
 
         this.sessions.set(session.id, session);
     }
 
-    getSessionCookies(sessionId?: string): Record<string, string> {
+    /**
+     * Session cookies by name: those a request to url would send, or all of them without a url
+     */
+    getSessionCookies(sessionId?: string, url?: string): Record<string, string> {
         const session = this.getSession(sessionId);
-        return { ...session.cookies };
+        const cookies = url ? session.cookieJar.getCookies(url) : session.cookieJar.getAll();
+        return Object.fromEntries(cookies.map(cookie => [cookie.name, cookie.value]));
     }
 
-    restoreSessionCookies(cookies: Record<string, string>, sessionId?: string): void {
-        const session = this.getSession(sessionId);
-        session.cookies = { ...cookies };
+    /**
+     * Replace the session's cookies with exported ones: a CookieJar's JSON or a Netscape cookies.txt.
+     * Cookies by name (Record<string, string>) become host-only cookies for url, or without one
+     * for the site the session requests next.
+     */
+    restoreSessionCookies(cookies: Cookie[] | string | Record<string, string>, sessionId?: string, url?: string): void {
+        this.setSessionCookies(this.getSession(sessionId), cookies, url);
+    }
+
+    private setSessionCookies(session: ScrapingSession, cookies: Cookie[] | string | Record<string, string>, url?: string): void {
+        session.unboundCookies = undefined;
+        if (typeof cookies === 'string') {
+            session.cookieJar = CookieJar.fromNetscape(cookies);
+        } else if (Array.isArray(cookies)) {
+            session.cookieJar = CookieJar.fromJSON(cookies);
+        } else {
+            session.cookieJar = new CookieJar();
+            this.bindLegacyCookies(session, cookies, url);
+        }
+    }
+
+    /**
+     * Store cookies known only by name as host-only cookies for the whole site of url,
+     * or keep them until the session's next request tells which site they belong to
+     */
+    private bindLegacyCookies(session: ScrapingSession, cookies: Record<string, string>, url?: string): void {
+        if (!url) {
+            session.unboundCookies = Object.keys(cookies).length > 0 ? { ...cookies } : undefined;
+            return;
+        }
+        for (const [name, value] of Object.entries(cookies)) {
+            session.cookieJar.setCookie(`${name}=${value}; Path=/`, url);
+        }
+        session.unboundCookies = undefined;
     }
 
     isHtmlResponse(response: HttpResponse): boolean {
@@ -487,7 +651,11 @@ export class CloudflareScraper {
             throw new Error('Response is not HTML');
         }
 
-        const root = parse(response.body);
+        // Bodies fetched with responseType 'buffer' haven't been decoded yet
+        const body = response.rawBody && (options.encoding || (!response.body && response.rawBody.length))
+            ? decodeBody(response.rawBody, response.headers['content-type'], options.encoding).text
+            : response.body;
+        const root = parse(body);
         const elements = this.convertNodeToElements(root);
 
         return {
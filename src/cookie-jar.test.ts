@@ -0,0 +1,83 @@
+import { CookieJar } from './cookie-jar';
+
+describe('CookieJar', () => {
+    it('should keep values containing = and scope cookies to their domain', () => {
+        const jar = new CookieJar();
+        jar.setCookies([
+            'token=a=b==; Path=/',
+            'shared=2; Domain=.example.com',
+            'foreign=3; Domain=other.com'
+        ], 'https://login.example.com/start');
+
+        expect(jar.getCookieHeader('https://login.example.com/')).toBe('token=a=b==; shared=2');
+        expect(jar.getCookieHeader('https://www.example.com/')).toBe('shared=2');
+        expect(jar.getCookieHeader('https://example.com.evil.com/')).toBe('');
+        expect(jar.getCookieHeader('https://other.com/')).toBe('');
+    });
+
+    it('should reject cookies for public suffixes', () => {
+        const jar = new CookieJar();
+
+        expect(jar.setCookie('a=1; Domain=com', 'https://example.com/')).toBeNull();
+        expect(jar.setCookie('b=2; Domain=.co.uk', 'https://shop.example.co.uk/')).toBeNull();
+        expect(jar.setCookie('c=3; Domain=example.co.uk', 'https://shop.example.co.uk/')).toMatchObject({ hostOnly: false });
+        expect(jar.setCookie('d=4; Domain=web.de', 'https://www.web.de/')).toMatchObject({ domain: 'web.de' });
+        expect(jar.setCookie('e=5; Domain=github.io', 'https://user.github.io/')).toBeNull();
+        expect(jar.setCookie('f=6; Domain=example.pvt.k12.ma.us', 'https://www.example.pvt.k12.ma.us/')).toMatchObject({ hostOnly: false });
+    });
+
+    it('should match paths and send longer paths first', () => {
+        const jar = new CookieJar();
+        jar.setCookie('root=1; Path=/', 'https://example.com/');
+        jar.setCookie('api=2; Path=/api', 'https://example.com/');
+        jar.setCookie('dir=3', 'https://example.com/docs/page');
+
+        expect(jar.getCookieHeader('https://example.com/api/users')).toBe('api=2; root=1');
+        expect(jar.getCookieHeader('https://example.com/apiary')).toBe('root=1');
+        expect(jar.getCookieHeader('https://example.com/docs/other')).toBe('dir=3; root=1');
+    });
+
+    it('should expire cookies with Max-Age taking precedence over Expires', () => {
+        let now = Date.parse('2030-01-01T00:00:00Z');
+        const jar = new CookieJar(() => now);
+        jar.setCookie('short=1; Max-Age=60; Expires=Wed, 01 Jan 2031 00:00:00 GMT', 'https://example.com/');
+        jar.setCookie('dated=2; Expires=Tue, 01 Jan 2030 00:10:00 GMT', 'https://example.com/');
+        jar.setCookie('session=3', 'https://example.com/');
+
+        now += 120 * 1000;
+        expect(jar.getCookieHeader('https://example.com/')).toBe('dated=2; session=3');
+
+        jar.setCookie('session=; Max-Age=0', 'https://example.com/');
+        expect(jar.getAll().map(cookie => cookie.name)).toEqual(['dated']);
+    });
+
+    it('should keep Secure cookies to HTTPS', () => {
+        const jar = new CookieJar();
+
+        expect(jar.setCookie('a=1; Secure', 'http://example.com/')).toBeNull();
+        jar.setCookie('a=1; Secure', 'https://example.com/');
+        expect(jar.setCookie('a=2', 'http://example.com/')).toBeNull();
+
+        expect(jar.getCookieHeader('http://example.com/')).toBe('');
+        expect(jar.getCookieHeader('https://example.com/')).toBe('a=1');
+        expect(jar.setCookie('__Host-id=1; Secure; Path=/; Domain=example.com', 'https://example.com/')).toBeNull();
+    });
+
+    it('should round-trip through Netscape cookies.txt and JSON', () => {
+        const jar = new CookieJar();
+        jar.setCookie('host=1; Path=/; HttpOnly', 'https://example.com/');
+        jar.setCookie('shared=2; Domain=example.com; Secure; Expires=Wed, 01 Jan 2070 00:00:00 GMT', 'https://example.com/');
+
+        const text = jar.toNetscape();
+        expect(text).toContain('#HttpOnly_example.com\tFALSE\t/\tFALSE\t0\thost\t1');
+        expect(text).toContain('.example.com\tTRUE\t/\tTRUE\t3155760000\tshared\t2');
+
+        for (const restored of [CookieJar.fromNetscape(text), CookieJar.fromJSON(JSON.parse(JSON.stringify(jar)))]) {
+            expect(restored.getCookieHeader('https://www.example.com/')).toBe('shared=2');
+            expect(restored.getCookies('https://example.com/')).toEqual([
+                expect.objectContaining({ name: 'host', hostOnly: true, httpOnly: true }),
+                expect.objectContaining({ name: 'shared', hostOnly: false, secure: true })
+            ]);
+        }
+    });
+});
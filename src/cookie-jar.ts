@@ -0,0 +1,370 @@
+import { getPublicSuffix } from 'tldts';
+
+// A stored cookie, scoped as RFC 6265 section 5.3 describes
+export interface Cookie {
+    name: string;
+    value: string;
+    domain: string; // Lowercase, without a leading dot
+    path: string;
+    hostOnly: boolean; // Sent to domain only, not to its subdomains (no Domain attribute was given)
+    secure: boolean;
+    httpOnly: boolean;
+    sameSite?: 'Strict' | 'Lax' | 'None';
+    expires?: number; // Milliseconds since the epoch; session cookies have none
+    createdAt: number;
+}
+
+/**
+ * Cookie storage that behaves like a browser's: cookies are scoped by domain and path, expire,
+ * and can't be set for another site or for a public suffix such as com or co.uk.
+ * Serializes to JSON and to the Netscape cookies.txt format curl and browser extensions use.
+ */
+export class CookieJar {
+    private cookies = new Map<string, Cookie>();
+
+    constructor(private now: () => number = Date.now) { }
+
+    /**
+     * Store the cookie from one Set-Cookie header received from url; returns it,
+     * or null when it was rejected or only removed an existing cookie
+     */
+    setCookie(header: string, url: string): Cookie | null {
+        const target = parseHttpUrl(url);
+        if (!target) {
+            return null;
+        }
+
+        const [nameValue, ...attributes] = header.split(';');
+        const separator = nameValue.indexOf('=');
+        if (separator < 0) {
+            return null;
+        }
+        const name = nameValue.substring(0, separator).trim();
+        const value = nameValue.substring(separator + 1).trim();
+        if (!name) {
+            return null;
+        }
+
+        const host = target.hostname.toLowerCase();
+        const now = this.now();
+        const cookie: Cookie = {
+            name,
+            value,
+            domain: host,
+            path: getDefaultPath(target.pathname),
+            hostOnly: true,
+            secure: false,
+            httpOnly: false,
+            createdAt: now
+        };
+        let maxAge: number | undefined;
+        let expires: number | undefined;
+
+        for (const attribute of attributes) {
+            const equals = attribute.indexOf('=');
+            const key = (equals < 0 ? attribute : attribute.substring(0, equals)).trim().toLowerCase();
+            const attributeValue = equals < 0 ? '' : attribute.substring(equals + 1).trim();
+
+            switch (key) {
+                case 'domain': {
+                    const domain = attributeValue.replace(/^\./, '').toLowerCase();
+                    if (!domain) {
+                        break;
+                    }
+                    if (isPublicSuffix(domain)) {
+                        // A public suffix may only set a cookie for itself
+                        if (domain !== host) {
+                            return null;
+                        }
+                        break;
+                    }
+                    if (!domainMatches(host, domain)) {
+                        return null;
+                    }
+                    cookie.domain = domain;
+                    cookie.hostOnly = false;
+                    break;
+                }
+                case 'path':
+                    if (attributeValue.startsWith('/')) {
+                        cookie.path = attributeValue;
+                    }
+                    break;
+                case 'max-age':
+                    if (/^-?\d+$/.test(attributeValue)) {
+                        maxAge = Number(attributeValue);
+                    }
+                    break;
+                case 'expires': {
+                    const time = Date.parse(attributeValue);
+                    if (!isNaN(time)) {
+                        expires = time;
+                    }
+                    break;
+                }
+                case 'secure':
+                    cookie.secure = true;
+                    break;
+                case 'httponly':
+                    cookie.httpOnly = true;
+                    break;
+                case 'samesite': {
+                    const sameSite = ['Strict', 'Lax', 'None'].find(item => item.toLowerCase() === attributeValue.toLowerCase());
+                    cookie.sameSite = sameSite as Cookie['sameSite'];
+                    break;
+                }
+            }
+        }
+
+        // Max-Age wins over Expires
+        if (maxAge !== undefined) {
+            cookie.expires = maxAge <= 0 ? 0 : now + maxAge * 1000;
+        } else if (expires !== undefined) {
+            cookie.expires = expires;
+        }
+
+        // Only secure origins may set Secure cookies or overwrite them, and the name prefixes hold them to it
+        const secureOrigin = target.protocol === 'https:';
+        if (cookie.secure && !secureOrigin) {
+            return null;
+        }
+        if ((name.startsWith('__Secure-') || name.startsWith('__Host-')) && !cookie.secure) {
+            return null;
+        }
+        if (name.startsWith('__Host-') && (!cookie.hostOnly || cookie.path !== '/')) {
+            return null;
+        }
+
+        const key = getKey(cookie);
+        const existing = this.cookies.get(key);
+        if (existing?.secure && !secureOrigin) {
+            return null;
+        }
+        if (existing) {
+            cookie.createdAt = existing.createdAt;
+        }
+
+        if (cookie.expires !== undefined && cookie.expires <= now) {
+            this.cookies.delete(key);
+            return null;
+        }
+
+        this.cookies.set(key, cookie);
+        return cookie;
+    }
+
+    /**
+     * Store every Set-Cookie header of a response from url
+     */
+    setCookies(headers: string[], url: string): void {
+        for (const header of headers) {
+            this.setCookie(header, url);
+        }
+    }
+
+    /**
+     * Unexpired cookies a request to url would carry, longest path first as browsers send them
+     */
+    getCookies(url: string): Cookie[] {
+        const target = parseHttpUrl(url);
+        if (!target) {
+            return [];
+        }
+
+        const host = target.hostname.toLowerCase();
+        const path = target.pathname || '/';
+        const secure = target.protocol === 'https:';
+
+        return this.getAll()
+            .filter(cookie =>
+                (cookie.hostOnly ? host === cookie.domain : domainMatches(host, cookie.domain)) &&
+                pathMatches(path, cookie.path) &&
+                (secure || !cookie.secure))
+            .sort((a, b) => b.path.length - a.path.length || a.createdAt - b.createdAt);
+    }
+
+    /**
+     * Cookie header value for a request to url; empty when no cookie applies
+     */
+    getCookieHeader(url: string): string {
+        return this.getCookies(url).map(cookie => `${cookie.name}=${cookie.value}`).join('; ');
+    }
+
+    /**
+     * Every unexpired cookie; expired ones are dropped along the way
+     */
+    getAll(): Cookie[] {
+        const now = this.now();
+        for (const [key, cookie] of this.cookies) {
+            if (cookie.expires !== undefined && cookie.expires <= now) {
+                this.cookies.delete(key);
+            }
+        }
+        return [...this.cookies.values()].map(cookie => ({ ...cookie }));
+    }
+
+    /**
+     * Remove all cookies, or only those stored for domain
+     */
+    clear(domain?: string): void {
+        if (domain === undefined) {
+            this.cookies.clear();
+            return;
+        }
+
+        const normalized = domain.replace(/^\./, '').toLowerCase();
+        for (const [key, cookie] of this.cookies) {
+            if (cookie.domain === normalized) {
+                this.cookies.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Forget the session cookies, as a browser does when it is closed
+     */
+    clearSessionCookies(): void {
+        for (const [key, cookie] of this.cookies) {
+            if (cookie.expires === undefined) {
+                this.cookies.delete(key);
+            }
+        }
+    }
+
+    /**
+     * Add previously exported cookies, replacing stored ones with the same name, domain and path
+     */
+    importCookies(cookies: Cookie[]): void {
+        const now = this.now();
+        for (const cookie of cookies) {
+            if (!cookie.name || !cookie.domain || (cookie.expires !== undefined && cookie.expires <= now)) {
+                continue;
+            }
+            const stored: Cookie = {
+                ...cookie,
+                domain: cookie.domain.replace(/^\./, '').toLowerCase(),
+                path: cookie.path || '/',
+                createdAt: cookie.createdAt ?? now
+            };
+            this.cookies.set(getKey(stored), stored);
+        }
+    }
+
+    toJSON(): Cookie[] {
+        return this.getAll();
+    }
+
+    /**
+     * Export in the Netscape cookies.txt format; session cookies get an expiry of 0
+     */
+    toNetscape(): string {
+        const lines = this.getAll().map(cookie => [
+            `${cookie.httpOnly ? '#HttpOnly_' : ''}${cookie.hostOnly ? '' : '.'}${cookie.domain}`,
+            cookie.hostOnly ? 'FALSE' : 'TRUE',
+            cookie.path,
+            cookie.secure ? 'TRUE' : 'FALSE',
+            String(cookie.expires === undefined ? 0 : Math.floor(cookie.expires / 1000)),
+            cookie.name,
+            cookie.value
+        ].join('\t'));
+
+        return ['# Netscape HTTP Cookie File', '', ...lines, ''].join('\n');
+    }
+
+    /**
+     * Import a Netscape cookies.txt file, as written by curl -c or browser extensions
+     */
+    importNetscape(text: string): void {
+        const cookies: Cookie[] = [];
+        const now = this.now();
+
+        for (const rawLine of text.split(/\r?\n/)) {
+            let line = rawLine.trim();
+            let httpOnly = false;
+            if (line.startsWith('#HttpOnly_')) {
+                line = line.substring('#HttpOnly_'.length);
+                httpOnly = true;
+            } else if (!line || line.startsWith('#')) {
+                continue;
+            }
+
+            const fields = line.split('\t');
+            if (fields.length < 6) {
+                continue;
+            }
+            const [domain, includeSubdomains, path, secure, expiry, name, value = ''] = fields;
+            const expiresAt = Number(expiry) * 1000;
+
+            cookies.push({
+                name,
+                value,
+                domain,
+                path,
+                hostOnly: includeSubdomains.toUpperCase() !== 'TRUE',
+                secure: secure.toUpperCase() === 'TRUE',
+                httpOnly,
+                expires: expiresAt > 0 ? expiresAt : undefined,
+                createdAt: now
+            });
+        }
+
+        this.importCookies(cookies);
+    }
+
+    static fromJSON(cookies: Cookie[], now?: () => number): CookieJar {
+        const jar = new CookieJar(now);
+        jar.importCookies(cookies);
+        return jar;
+    }
+
+    static fromNetscape(text: string, now?: () => number): CookieJar {
+        const jar = new CookieJar(now);
+        jar.importNetscape(text);
+        return jar;
+    }
+}
+
+function parseHttpUrl(url: string): URL | null {
+    try {
+        const parsed = new URL(url);
+        return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed : null;
+    } catch {
+        return null;
+    }
+}
+
+function getKey(cookie: Cookie): string {
+    return `${cookie.domain};${cookie.path};${cookie.name}`;
+}
+
+/**
+ * Directory of the request path, the path a cookie without a Path attribute gets (RFC 6265 5.1.4)
+ */
+function getDefaultPath(pathname: string): string {
+    const lastSlash = pathname.lastIndexOf('/');
+    return lastSlash <= 0 ? '/' : pathname.substring(0, lastSlash);
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+    if (requestPath === cookiePath) {
+        return true;
+    }
+    return requestPath.startsWith(cookiePath) &&
+        (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/');
+}
+
+function domainMatches(host: string, domain: string): boolean {
+    return host === domain || (host.endsWith(`.${domain}`) && !isIpAddress(host));
+}
+
+function isIpAddress(host: string): boolean {
+    return /^[0-9.]+$/.test(host) || host.includes(':') || host.startsWith('[');
+}
+
+/**
+ * Whether domain is a public suffix by the public suffix list, including its private section
+ * (github.io, herokuapp.com) as browsers use it; unlisted single labels such as localhost count too
+ */
+function isPublicSuffix(domain: string): boolean {
+    return !isIpAddress(domain) && getPublicSuffix(domain, { allowPrivateDomains: true }) === domain;
+}
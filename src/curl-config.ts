@@ -0,0 +1,128 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Option name (long form, without dashes) and value, as written in a curl -K config file
+export type CurlConfigEntry = [string, string];
+
+const SENSITIVE_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'x-api-key', 'x-auth-token'];
+const REDACTED = '[REDACTED]';
+
+/**
+ * Render config entries in curl's config file syntax
+ */
+export function renderCurlConfig(entries: CurlConfigEntry[]): string {
+    return entries.map(([name, value]) => `${name} = "${escapeConfigValue(value)}"\n`).join('');
+}
+
+/**
+ * Read config entries back from curl's config file syntax (as written by renderCurlConfig)
+ */
+export function parseCurlConfig(config: string): CurlConfigEntry[] {
+    const entries: CurlConfigEntry[] = [];
+    for (const line of config.split('\n')) {
+        const match = line.match(/^\s*([\w.-]+)\s*=\s*"((?:[^"\\]|\\.)*)"\s*$/);
+        if (match) {
+            entries.push([match[1], unescapeConfigValue(match[2])]);
+        }
+    }
+    return entries;
+}
+
+/**
+ * Expand config entries back into command-line form with secrets masked, for debug output
+ */
+export function redactCurlConfig(entries: CurlConfigEntry[]): string[] {
+    return entries.flatMap(([name, value]) => [`--${name}`, redactConfigValue(name, value)]);
+}
+
+/**
+ * Write config to a file only the current user can read, for when stdin carries the body
+ */
+export async function writePrivateConfigFile(config: string): Promise<{ path: string; cleanup: () => Promise<void> }> {
+    const { paths, cleanup } = await writePrivateConfigFiles([config]);
+    return { path: paths[0], cleanup };
+}
+
+/**
+ * Write one private config file per transfer of a batched curl run, all in the same directory
+ */
+export async function writePrivateConfigFiles(configs: string[]): Promise<{ paths: string[]; cleanup: () => Promise<void> }> {
+    return writePrivateFiles(configs.map((config, index) => [index === 0 ? 'curl.config' : `curl-${index}.config`, config]));
+}
+
+/**
+ * Write named files only the current user can read into a fresh temporary directory,
+ * e.g. in-memory PEM certificates and keys curl can only read from disk
+ */
+export async function writePrivateFiles(files: Array<[string, string | Buffer]>): Promise<{ paths: string[]; cleanup: () => Promise<void> }> {
+    const dir = await mkdtemp(join(tmpdir(), 'curl-impersonate-'));
+    const cleanup = () => rm(dir, { recursive: true, force: true });
+
+    try {
+        const paths = files.map(([name]) => join(dir, name));
+        await Promise.all(files.map(([, data], index) => writeFile(paths[index], data, { mode: 0o600 })));
+        return { paths, cleanup };
+    } catch (error) {
+        await cleanup();
+        throw error;
+    }
+}
+
+/**
+ * Mask sensitive request headers and proxy credentials in curl's verbose (-v) output. Headers appear
+ * as sent over HTTP/1.1 (> name: value) and, for HTTP/2 and HTTP/3, as the header fields curl logs:
+ * * [HTTP/2] [stream] [name: value] in curl 8, * h2h3 [name: value] in older releases.
+ */
+export function redactVerboseOutput(output: string): string {
+    const names = SENSITIVE_HEADERS.join('|');
+    // Lines of parallel runs start with --trace-ids' [transfer-connection] prefix
+    const traceId = '(?:\\[\\d+-(?:\\d+|x)\\] )?';
+    const headerPattern = new RegExp(`^(${traceId}> (?:${names}):).*$`, 'gim');
+    const fieldPattern = new RegExp(`^(${traceId}\\* (?:\\[HTTP/[23]\\] \\[\\d+\\]|h2h3) \\[(?:${names}):).*\\]$`, 'gim');
+    return output
+        .replace(headerPattern, `$1 ${REDACTED}`)
+        .replace(fieldPattern, `$1 ${REDACTED}]`)
+        .replace(/(Proxy auth using \S+ with user )'[^']*'/g, `$1'${REDACTED}'`);
+}
+
+function escapeConfigValue(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\t/g, '\\t')
+        .replace(/\r/g, '\\r')
+        .replace(/\n/g, '\\n');
+}
+
+function unescapeConfigValue(value: string): string {
+    const escapes: Record<string, string> = { t: '\t', r: '\r', n: '\n' };
+    return value.replace(/\\(.)/g, (_, char: string) => escapes[char] ?? char);
+}
+
+function redactConfigValue(name: string, value: string): string {
+    if (name === 'header' || name === 'proxy-header') {
+        const colonIndex = value.indexOf(':');
+        const headerName = colonIndex > 0 ? value.substring(0, colonIndex).trim().toLowerCase() : '';
+        return SENSITIVE_HEADERS.includes(headerName) ? `${value.substring(0, colonIndex)}: ${REDACTED}` : value;
+    }
+
+    if (name === 'proxy' || name === 'preproxy') {
+        return redactUserinfo(value);
+    }
+
+    // Query strings often carry tokens and signatures
+    if (name === 'url' || name === 'doh-url') {
+        return redactUserinfo(value).replace(/([?&][^=&#]*)=[^&#]*/g, `$1=${REDACTED}`);
+    }
+
+    if (name === 'proxy-user' || name === 'user' || name === 'pass' || name === 'proxy-pass') {
+        return REDACTED;
+    }
+
+    return value;
+}
+
+function redactUserinfo(url: string): string {
+    return url.replace(/\/\/[^@/]*@/, `//${REDACTED}@`);
+}
@@ -1,12 +1,44 @@
-import { spawn, SpawnOptions } from 'child_process';
-import { join } from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { constants, createReadStream } from 'fs';
+import { FileHandle, open, readFile, stat } from 'fs/promises';
+import { dirname, join } from 'path';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { debugLogger } from './debug';
+import {
+    AbortError,
+    CertificatePinError,
+    CurlBinaryError,
+    CurlFailure,
+    CurlProxyError,
+    CurlTimeoutError,
+    CurlTlsError,
+    CurlTransportError,
+    HttpStatusError,
+    ResponseValidationError,
+    createAbortError,
+    throwIfAborted
+} from './errors';
+import { ProcessScheduler, ProcessSchedulerMetrics, processScheduler } from './process-scheduler';
 import {
     RequestOptions,
     HttpResponse,
     JsonResponse,
-    CurlError,
+    StreamingResponse,
+    RedirectHop,
+    BatchRequest,
+    DownloadOptions,
+    DownloadResult,
     CurlImpersonateConfig,
+    CurlCapabilities,
+    HttpVersion,
+    RoutingOptions,
+    ResolveEntry,
+    ConnectToEntry,
+    TlsOptions,
+    PemSource,
+    ProxyConfig,
+    StatusRule,
     CURL_ERROR_CODES
 } from './types';
 import {
@@ -16,12 +48,152 @@ import {
     findFingerprintByBrowser,
     findFingerprintsByBrowser
 } from './fingerprint-config';
+import { buildRequestBody, RequestBody } from './request-body';
+import {
+    getRedirectMethod,
+    getRedirectHeaders,
+    getSecFetchSite,
+    resolveReferrer
+} from './redirect-policy';
+import { CookieJar } from './cookie-jar';
+import { formatProxyUrl, getProxyFromEnv, matchesNoProxy, parseProxy } from './proxy';
+import { ClientDefaults, CurlClient } from './client';
+import { decodeBody, normalizeCharset } from './charset';
+import { BatchJob, RequestBatcher } from './request-batcher';
+import { CliTransport, Transport } from './transport';
+import { BinaryLocation, probeBinary, resolveBinaryPath } from './binary-resolver';
+import { formatRequestHeaders } from './header-order';
+import { TraceLine, getConnectionInfo, getResponseTimings, parseVerboseTrace, selectTransferTrace } from './transfer-info';
+import { CurlConfigEntry, renderCurlConfig, redactCurlConfig, redactVerboseOutput, writePrivateConfigFile, writePrivateConfigFiles, writePrivateFiles } from './curl-config';
+
+// Arguments for one curl run; secrets and large values live in a -K config, not in argv
+interface CurlCommand {
+    args: string[];
+    config: CurlConfigEntry[];
+    pemFiles?: Array<[string, PemSource]>; // Config options whose in-memory PEM value is written to a private file first
+}
+
+// Ready-to-spawn curl run: argv, what to feed on stdin, and debug-safe argv
+interface CurlInvocation {
+    transport: Transport;
+    args: string[];
+    input?: Buffer | Readable;
+    debugArgs: string[];
+    outputs?: string[]; // Output file of each transfer of a batched run
+    cleanup: () => Promise<void>;
+}
+
+// Output of a finished curl run; stderr has its trace timestamps stripped and secrets redacted
+interface CurlResult {
+    stdout: Buffer;
+    stderr: string;
+    trace: TraceLine[];
+    exitCode: number;
+}
+
+// A request waiting to share a curl process with others for the same origin
+interface BatchedRequest extends BatchJob {
+    url: string;
+    options: RequestOptions;
+    fingerprint: FingerprintConfig;
+    resolve: (response: HttpResponse) => void;
+}
+
+// One transfer of a batched run, its output shaped like the output of a single run
+interface BatchTransferOutput {
+    output: Buffer;
+    exitCode: number;
+    errorMessage: string | null;
+    totalTime?: number;
+    transferId?: number; // curl's xfer_id, which prefixes its verbose lines (--trace-ids)
+}
+
+// One header block of a response curl received: proxy CONNECT, interim, redirect or final
+interface ResponseHeaderBlock {
+    httpVersion: string;
+    statusCode: number;
+    reasonPhrase: string;
+    rawHeaders: Array<[string, string]>;
+}
+
+// The request a failed curl run was making, for the error it turns into
+interface ErrorContext {
+    url?: string;
+    options?: RequestOptions;
+    fingerprint?: string;
+    args?: string[];
+}
+
+// Resolved timeouts for one request, in milliseconds
+interface TimeoutSettings {
+    totalMs?: number;
+    connectMs?: number;
+    stallMs?: number;
+    lowSpeedLimit: number;
+}
+
+// Extra time curl gets to enforce its own timeouts before the Node-side watchdog kills it
+const WATCHDOG_GRACE_MS = 2000;
+
+// Appended after the body: total header bytes (all blocks), then curl's transfer info as JSON.
+// The header size lets the body be sliced off by length, whatever bytes it contains.
+const WRITE_OUT_FORMAT = '\\n%{size_header}|%{json}';
+
+const DEFAULT_MAX_BATCH_SIZE = 8;
+
+// curl errors from the TLS handshake and certificate checks, thrown as CurlTlsError
+const TLS_ERROR_CODES = [35, 51, 53, 54, 58, 59, 60, 66, 77, 80, 82, 83, 90, 91, 98];
+
+// curl-impersonate options a fingerprint may use, and whether each takes a value
+const FINGERPRINT_OPTIONS: Record<string, boolean> = {
+    '--ciphers': true,
+    '--curves': true,
+    '--http1.1': false,
+    '--http2': false,
+    '--http3': false,
+    '--http2-settings': true,
+    '--http2-window-update': true,
+    '--http2-stream-weight': true,
+    '--http2-stream-exclusive': true,
+    '--http2-pseudo-headers-order': true,
+    '--compressed': false,
+    '--ech': true,
+    '--tlsv1.0': false,
+    '--tlsv1.2': false,
+    '--alps': false,
+    '--tls-permute-extensions': false,
+    '--cert-compression': true,
+    '--tls-grease': false,
+    '--tls-use-new-alps-codepoint': false,
+    '--tls-signed-cert-timestamps': false,
+    '--signature-hashes': true,
+    '--tls-extension-order': true,
+    '--tls-delegated-credentials': true,
+    '--tls-record-size-limit': true,
+    '--tls-key-shares-limit': true,
+    '--no-tls-session-ticket': false
+};
 
 export class CurlImpersonate {
-    private binaryPath: string;
     private config: CurlImpersonateConfig;
+    private location: BinaryLocation;
+    private capabilities: Promise<CurlCapabilities> | null = null;
+    private warnedOptions = new Set<string>();
+    // Alt-Svc only upgrades to HTTP/3 once the binary is known to support it
+    private http3Available: boolean;
+    private scheduler: ProcessScheduler;
+    private batcher: RequestBatcher<BatchedRequest>;
+
+    /**
+     * Client with default options (baseURL, params, headers, fingerprint, proxy, ...) and interceptors
+     */
+    static create(defaults: ClientDefaults = {}, config: CurlImpersonateConfig = {}): CurlClient {
+        return new CurlClient(new CurlImpersonate(config), defaults);
+    }
 
     constructor(config: CurlImpersonateConfig = {}) {
+        // Only locations the caller gave count as explicit; the rest is searched for
+        this.location = { binaryPath: config.binaryPath, binariesPath: config.binariesPath };
         this.config = {
             binariesPath: './binaries',
             defaultTimeout: 30000,
@@ -29,7 +201,41 @@ export class CurlImpersonate {
             defaultVerifySSL: true,
             ...config
         };
-        this.binaryPath = join(this.config.binariesPath!, 'curl-impersonate');
+        this.scheduler = this.config.scheduler || processScheduler;
+        this.http3Available = this.config.transport?.features?.includes('HTTP3') ?? false;
+        this.batcher = new RequestBatcher(
+            this.scheduler,
+            this.config.batching?.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE,
+            jobs => this.executeBatch(jobs)
+        );
+    }
+
+    /**
+     * Get running and queued curl process counts from this instance's scheduler
+     */
+    getSchedulerMetrics(): ProcessSchedulerMetrics {
+        return this.scheduler.getMetrics();
+    }
+
+    /**
+     * Locate the curl-impersonate binary and report its version, features and options.
+     * Runs the binary once; the result is shared with every later request.
+     */
+    getCapabilities(): Promise<CurlCapabilities> {
+        if (!this.capabilities) {
+            const capabilities = resolveBinaryPath(this.location).then(probeBinary).then(result => {
+                this.http3Available = result.features.includes('HTTP3');
+                return result;
+            });
+            // Try again on the next call, e.g. once the binary has been installed
+            capabilities.catch(() => {
+                if (this.capabilities === capabilities) {
+                    this.capabilities = null;
+                }
+            });
+            this.capabilities = capabilities;
+        }
+        return this.capabilities;
     }
 
     /**
@@ -76,34 +282,419 @@ export class CurlImpersonate {
         options: RequestOptions = {},
         fingerprintName?: string
     ): Promise<HttpResponse> {
-        const fingerprint = fingerprintName ?
-            getFingerprintConfig(fingerprintName) :
-            getFingerprintConfig('chrome136-macos'); // Default fingerprint
+        const fingerprint = this.resolveFingerprint(fingerprintName);
+        // Checked before curl runs, so a bad option isn't reported as a failed transfer
+        if (options.charset && !normalizeCharset(options.charset)) {
+            throw new TypeError(`Unsupported charset: ${options.charset}`);
+        }
 
-        if (!fingerprint) {
-            throw new Error(`Fingerprint configuration not found: ${fingerprintName || 'default'}`);
+        if (options.redirectMode === 'library' && options.followRedirects !== false) {
+            return this.checkResponse(await this.requestFollowingRedirects(url, options, fingerprintName), options, fingerprint);
         }
 
+
         // Debug logging
         debugLogger.logRequestWithFile(url, options, fingerprint, 'curl-request');
 
+        throwIfAborted(options.signal);
+
+        // Queued synchronously, so requests started in the same tick end up in the same batch
+        const batchKey = this.getBatchKey(url, options, fingerprint);
+        const response = batchKey !== null
+            ? await this.submitToBatch(batchKey, url, options, fingerprint)
+            : await this.requestAlone(url, options, fingerprint);
+
+        this.recordAltSvc(response, options);
+        this.storeCookies(response, options);
+        return this.checkResponse(response, options, fingerprint);
+    }
+
+    /**
+     * Reject a response the caller doesn't accept: a status throwOnStatus matches, or one
+     * validateResponse turns down
+     */
+    private checkResponse(response: HttpResponse, options: RequestOptions, fingerprint: FingerprintConfig): HttpResponse {
+        if (options.throwOnStatus !== undefined && this.matchesStatusRule(options.throwOnStatus, response)) {
+            throw new HttpStatusError(response, fingerprint.name);
+        }
+        if (options.validateResponse) {
+            const result = options.validateResponse(response);
+            if (result !== true) {
+                throw new ResponseValidationError(response, result || 'rejected by validateResponse', fingerprint.name);
+            }
+        }
+        return response;
+    }
+
+    private matchesStatusRule(rule: StatusRule, response: HttpResponse): boolean {
+        const { statusCode } = response;
+        if (typeof rule === 'function') {
+            return rule(statusCode, response);
+        }
+        if (typeof rule === 'boolean') {
+            return rule && statusCode >= 400;
+        }
+        return rule.some(entry => Array.isArray(entry)
+            ? statusCode >= entry[0] && statusCode <= entry[1]
+            : statusCode === entry);
+    }
+
+    /**
+     * Queue a request to share a curl process with others for the same origin
+     */
+    private submitToBatch(batchKey: string, url: string, options: RequestOptions, fingerprint: FingerprintConfig): Promise<HttpResponse> {
+        return new Promise((resolve, reject) => {
+            this.batcher.submit(batchKey, {
+                url,
+                options,
+                fingerprint,
+                priority: options.priority,
+                queueTimeoutMs: options.queueTimeoutMs,
+                signal: options.signal,
+                resolve,
+                reject
+            });
+        });
+    }
+
+    /**
+     * Run a request in a curl process of its own
+     */
+    private async requestAlone(url: string, options: RequestOptions, fingerprint: FingerprintConfig): Promise<HttpResponse> {
+        const invocation = await this.prepareScheduledInvocation(url, options, fingerprint, false);
+        try {
+            return await this.runRequest(invocation, url, options, fingerprint);
+        } finally {
+            await invocation.cleanup();
+        }
+    }
+
+    /**
+     * Make several requests at once; requests for the same origin share a curl process,
+     * and so a connection, whether or not batching is enabled for the instance
+     */
+    async requestBatch(
+        requests: BatchRequest[],
+        fingerprintName?: string
+    ): Promise<Array<PromiseSettledResult<HttpResponse>>> {
+        return Promise.allSettled(requests.map(({ url, options }) =>
+            this.request(url, { batch: true, ...options }, fingerprintName)));
+    }
+
+    /**
+     * HTTP version for a request: the request's, else the fingerprint's. 'auto' goes to HTTP/3
+     * once the origin has advertised it through Alt-Svc (and the binary can do it), and negotiates
+     * HTTP/2 or 1.1 before that.
+     */
+    private resolveHttpVersion(url: string, options: RequestOptions, fingerprint: FingerprintConfig): HttpVersion {
+        const requested = options.httpVersion ?? fingerprint.httpVersion ?? 'auto';
+        if (requested === 'auto' && this.http3Available && options.altSvc?.supportsHttp3(url)) {
+            return '3';
+        }
+        return requested;
+    }
+
+    /**
+     * Remember the Alt-Svc headers of a response and its redirect hops in the request's cache
+     */
+    private recordAltSvc(response: { url: string; headers: Record<string, string>; redirects?: RedirectHop[] }, options: RequestOptions): void {
+        if (!options.altSvc) {
+            return;
+        }
+        for (const hop of response.redirects ?? []) {
+            options.altSvc.update(hop.url, hop.headers['alt-svc']);
+        }
+        options.altSvc.update(response.url, response.headers['alt-svc']);
+    }
+
+    /**
+     * Store the cookies set by a response and its redirect hops in the request's cookie jar
+     */
+    private storeCookies(response: { url: string; rawHeaders?: Array<[string, string]>; redirects?: RedirectHop[] }, options: RequestOptions): void {
+        const jar = options.cookieJar ?? this.config.cookieJar;
+        if (!jar) {
+            return;
+        }
+        // Each Set-Cookie line on its own: joined values can't be split back apart (Expires contains commas)
+        for (const { url, rawHeaders } of [...response.redirects ?? [], response]) {
+            const setCookies = (rawHeaders ?? [])
+                .filter(([name]) => name.toLowerCase() === 'set-cookie')
+                .map(([, value]) => value);
+            jar.setCookies(setCookies, url);
+        }
+    }
+
+    /**
+     * Run a prepared single-request invocation and parse its response
+     */
+    private async runRequest(invocation: CurlInvocation, url: string, options: RequestOptions, fingerprint: FingerprintConfig): Promise<HttpResponse> {
         const startTime = Date.now();
-        const curlArgs = this.buildCurlArgs(url, options, fingerprint);
 
         try {
-            const result = await this.executeCurl(curlArgs, url);
+            const result = await this.executeCurl(invocation, url, options);
             const endTime = Date.now();
 
-            const response = this.parseResponse(result, url, endTime - startTime, options);
+            const response = this.parseResponse(result.stdout, url, endTime - startTime, options, {
+                text: result.stderr,
+                lines: result.trace
+            });
 
             // Debug logging with file saving
             debugLogger.logResponseWithFile(response, endTime - startTime, 'curl-response', false);
 
             return response;
         } catch (error) {
+            if (error instanceof AbortError) {
+                throw error;
+            }
             // Debug logging
             debugLogger.logCurlError(error, 'request execution');
-            throw this.parseError(error as Error);
+            throw this.parseError(error as Error, { url, options, fingerprint: fingerprint.name, args: invocation.debugArgs });
+        }
+    }
+
+    /**
+     * Key grouping requests that can share a curl process, or null when this one must run alone.
+     * Bodies are fed through stdin, which only one transfer of a run can read.
+     */
+    private getBatchKey(url: string, options: RequestOptions, fingerprint: FingerprintConfig): string | null {
+        const enabled = options.batch ?? this.config.batching?.enabled ?? false;
+        const hasBody = (options.body !== undefined && options.body !== null) ||
+            options.json !== undefined || !!options.form || !!options.formData;
+        if (!enabled || hasBody) {
+            return null;
+        }
+
+        let origin: string;
+        try {
+            origin = new URL(url).origin;
+        } catch {
+            return null;
+        }
+
+        // Only transfers through the same proxy and route, with the same TLS identity, can reuse the same connection
+        return [
+            fingerprint.name,
+            origin,
+            JSON.stringify(this.resolveRouting(options)),
+            createHash('sha256')
+                .update(JSON.stringify([this.resolveProxy(url, options) ?? null, this.resolveTls(options)]))
+                .digest('hex')
+        ].join('\n');
+    }
+
+    /**
+     * Run same-origin requests as parallel transfers (--next, --parallel) of one curl process, so
+     * they share its connection, then read each transfer's output back into its own response
+     */
+    private async executeBatch(jobs: BatchedRequest[]): Promise<void> {
+        if (jobs.length === 1) {
+            const [job] = jobs;
+            const { commands, transport } = await this.prepareCommands([this.buildCurlArgs(job.url, job.options, job.fingerprint)]);
+            const invocation = await this.prepareInvocation(commands[0], null, transport);
+            try {
+                job.resolve(await this.runRequest(invocation, job.url, job.options, job.fingerprint));
+            } catch (error) {
+                job.reject(error as Error);
+            } finally {
+                await invocation.cleanup();
+            }
+            return;
+        }
+
+        // Responses go to one file per transfer; stdout only gets the write-outs, each tagged with its transfer
+        const marker = `--curl-impersonate-${randomBytes(12).toString('hex')}--`;
+        const { commands, transport } = await this.prepareCommands(jobs.map((job, index) =>
+            this.buildCurlArgs(job.url, job.options, job.fingerprint, null, false, `${marker}${index}|%{size_header}|%{json}\\n`)));
+        const invocation = await this.prepareBatchInvocation(commands, transport);
+
+        // Every request can be aborted on its own; its transfer runs on inside curl, which is only killed once all of them are
+        const controller = new AbortController();
+        const open = new Set(jobs);
+        const settle = (job: BatchedRequest, finish: () => void) => {
+            if (open.delete(job)) {
+                finish();
+            }
+        };
+        const detachers = jobs.map(job => {
+            const onAbort = () => {
+                settle(job, () => job.reject(createAbortError(job.signal!)));
+                if (open.size === 0) {
+                    controller.abort();
+                }
+            };
+            job.signal?.addEventListener('abort', onAbort, { once: true });
+            if (job.signal?.aborted) {
+                onAbort();
+            }
+            return () => job.signal?.removeEventListener('abort', onAbort);
+        });
+
+        const startTime = Date.now();
+        try {
+            const result = await this.executeCurl(invocation, jobs[0].url, this.getBatchOptions(jobs, controller.signal), true);
+            const transfers = await this.readBatchOutput(result.stdout, marker, invocation.outputs!);
+
+            jobs.forEach((job, index) => settle(job, () => {
+                try {
+                    const response = this.parseBatchTransfer(transfers[index], result, job, Date.now() - startTime, invocation.debugArgs);
+                    debugLogger.logResponseWithFile(response, response.responseTime, 'curl-response', false);
+                    job.resolve(response);
+                } catch (error) {
+                    job.reject(error as Error);
+                }
+            }));
+        } catch (error) {
+            if (!(error instanceof AbortError)) {
+                debugLogger.logCurlError(error, 'batch execution');
+            }
+            jobs.forEach(job => settle(job, () => job.reject(error instanceof AbortError
+                ? error
+                : this.parseError(error as Error, { url: job.url, options: job.options, fingerprint: job.fingerprint.name, args: invocation.debugArgs }))));
+        } finally {
+            detachers.forEach(detach => detach());
+            await invocation.cleanup();
+        }
+    }
+
+    /**
+     * Turn one transfer of a batched run into a response, or into the error curl reported for it
+     */
+    private parseBatchTransfer(
+        transfer: BatchTransferOutput | undefined,
+        result: CurlResult,
+        job: BatchedRequest,
+        elapsed: number,
+        args: string[]
+    ): HttpResponse {
+        const context: ErrorContext = { url: job.url, options: job.options, fingerprint: job.fingerprint.name, args };
+        // Missing when curl stopped before finishing this transfer
+        if (!transfer) {
+            throw this.parseError(this.createExitError(result.exitCode, result.stderr, ''), context);
+        }
+
+        const verbose = transfer.transferId !== undefined
+            ? selectTransferTrace({ text: result.stderr, lines: result.trace }, transfer.transferId)
+            : { text: result.stderr, lines: result.trace };
+        if (transfer.exitCode !== 0) {
+            // curl's error lines carry no transfer id; only this transfer's own one is kept
+            const trace = verbose.text.split('\n').filter(line => !/^curl: \(\d+\)/.test(line)).join('\n').trim();
+            throw this.parseError(this.createExitError(
+                transfer.exitCode,
+                `${trace}\ncurl: (${transfer.exitCode}) ${transfer.errorMessage || ''}`.trimStart(),
+                transfer.output.toString('utf8'),
+                transfer.output
+            ), context);
+        }
+
+        const responseTime = typeof transfer.totalTime === 'number' ? Math.round(transfer.totalTime * 1000) : elapsed;
+        return this.parseResponse(transfer.output, job.url, responseTime, job.options, verbose);
+    }
+
+    /**
+     * Timeouts for the Node-side watchdog of a batched run: the transfers run side by side,
+     * so the run takes as long as its slowest transfer
+     */
+    private getBatchOptions(jobs: BatchedRequest[], signal: AbortSignal): RequestOptions {
+        const timeouts = jobs.map(job => this.resolveTimeouts(job.options));
+        const totals = timeouts.map(timeout => timeout.totalMs || 0);
+        const stalls = timeouts.map(timeout => timeout.stallMs || 0);
+
+        return {
+            signal,
+            // 0 leaves the limit off, as it is for any transfer without one
+            totalTimeoutMs: totals.includes(0) ? 0 : Math.max(...totals),
+            stallTimeoutMs: stalls.includes(0) ? 0 : Math.max(...stalls)
+        };
+    }
+
+    /**
+     * Follow redirects hop by hop instead of with curl's -L, so each hop carries the cookies set
+     * along the way and the Referer and Sec-Fetch-Site a browser would send
+     */
+    private async requestFollowingRedirects(
+        url: string,
+        options: RequestOptions,
+        fingerprintName?: string
+    ): Promise<HttpResponse> {
+        const fingerprint = this.resolveFingerprint(fingerprintName);
+        const maxRedirects = options.maxRedirects || this.config.defaultMaxRedirects!;
+        const startTime = Date.now();
+        const redirects: RedirectHop[] = [];
+        let hopUrl = url;
+        // Hops share a jar, so cookies set by one hop are sent on the following ones
+        // Status and validation checks apply to the final response, not to each hop
+        let hopOptions: RequestOptions = {
+            ...options,
+            followRedirects: false,
+            cookieJar: options.cookieJar ?? this.config.cookieJar ?? new CookieJar(),
+            throwOnStatus: undefined,
+            validateResponse: undefined
+        };
+
+        // Every hop's Referer and Sec-Fetch-Site derive from what the navigation started with
+        const findHeader = (name: string) =>
+            Object.entries(options.headers || {}).find(([key]) => key.toLowerCase() === name)?.[1];
+        const referrer = findHeader('referer');
+        const initialSite = findHeader('sec-fetch-site') ?? fingerprint.headers['Sec-Fetch-Site'];
+        let referrerPolicy: string | undefined;
+
+        while (true) {
+            const response = await this.request(hopUrl, hopOptions, fingerprintName);
+            const location = response.headers['location'];
+
+            if (response.statusCode < 300 || response.statusCode >= 400 || !location) {
+                return { ...response, redirects, responseTime: Date.now() - startTime };
+            }
+            if (redirects.length >= maxRedirects) {
+                throw this.parseError(
+                    this.createExitError(47, `Maximum (${maxRedirects}) redirects followed`, ''),
+                    { url: hopUrl, options: hopOptions, fingerprint: fingerprint.name }
+                );
+            }
+
+            redirects.push({
+                url: hopUrl,
+                statusCode: response.statusCode,
+                headers: response.headers,
+                rawHeaders: response.rawHeaders ?? Object.entries(response.headers)
+            });
+
+            const nextUrl = new URL(location, hopUrl).toString();
+            const hasBody = hopOptions.body !== undefined || hopOptions.json !== undefined || !!hopOptions.form || !!hopOptions.formData;
+            const method = hopOptions.method || (hasBody ? 'POST' : 'GET');
+            const nextMethod = getRedirectMethod(response.statusCode, method) as RequestOptions['method'];
+            const dropBody = nextMethod !== method;
+
+            // A stream has already been consumed and can't be sent again to the new location
+            if (!dropBody && hopOptions.body instanceof Readable) {
+                throw this.parseError(
+                    new Error(`Cannot follow a ${response.statusCode} redirect with a streamed request body`),
+                    { url: hopUrl, options: hopOptions, fingerprint: fingerprint.name }
+                );
+            }
+
+            // The last valid token of a Referrer-Policy header wins
+            const policy = response.headers['referrer-policy']?.split(',').map(token => token.trim()).filter(Boolean).pop();
+            referrerPolicy = policy || referrerPolicy;
+
+            const headers = getRedirectHeaders(hopOptions.headers, {
+                dropBodyHeaders: dropBody,
+                crossOrigin: new URL(nextUrl).origin !== new URL(hopUrl).origin
+            });
+            const nextReferrer = resolveReferrer(referrer, nextUrl, referrerPolicy);
+            if (nextReferrer) {
+                headers['Referer'] = nextReferrer;
+            }
+            headers['Sec-Fetch-Site'] = getSecFetchSite(initialSite, referrer || url, [...redirects.map(hop => hop.url), nextUrl]);
+
+            hopOptions = {
+                ...hopOptions,
+                method: nextMethod,
+                headers,
+                ...(dropBody ? { body: undefined, json: undefined, form: undefined, formData: undefined } : {})
+            };
+            hopUrl = nextUrl;
         }
     }
 
@@ -115,7 +706,7 @@ export class CurlImpersonate {
         options: RequestOptions = {},
         fingerprintName?: string
     ): Promise<JsonResponse<T>> {
-        const response = await this.request(url, options, fingerprintName);
+        const response = await this.request(url, { ...options, responseType: 'text' }, fingerprintName);
 
         try {
             const data = JSON.parse(response.body);
@@ -125,21 +716,227 @@ export class CurlImpersonate {
         }
     }
 
+    /**
+     * Make HTTP request and expose the body as a stream
+     * Resolves as soon as the final response headers arrive; the body is read from curl on demand
+     */
+    async stream(
+        url: string,
+        options: RequestOptions = {},
+        fingerprintName?: string
+    ): Promise<StreamingResponse> {
+        const fingerprint = this.resolveFingerprint(fingerprintName);
+
+        // Debug logging
+        debugLogger.logRequestWithFile(url, options, fingerprint, 'curl-stream');
+
+        throwIfAborted(options.signal);
+        // The process slot is held until curl exits, i.e. until the body has been read
+        const invocation = await this.prepareScheduledInvocation(url, options, fingerprint, true);
+
+        try {
+            const response = await this.executeCurlStream(invocation, url, options, fingerprint.name);
+            this.recordAltSvc(response, options);
+            this.storeCookies(response, options);
+            return response;
+        } catch (error) {
+            if (error instanceof AbortError) {
+                throw error;
+            }
+            // Debug logging
+            debugLogger.logCurlError(error, 'stream execution');
+            throw this.parseError(error as Error, { url, options, fingerprint: fingerprint.name, args: invocation.debugArgs });
+        }
+    }
+
+    /**
+     * Download response body directly to a file
+     * Interrupted transfers (CURLE_PARTIAL_FILE, timeouts) are resumed with a Range request
+     */
+    async downloadToFile(
+        url: string,
+        filePath: string,
+        options: DownloadOptions = {},
+        fingerprintName?: string
+    ): Promise<DownloadResult> {
+        const { resume = true, resumeExisting = false, maxResumeAttempts = 3, expectedSize, sha256, onProgress, ...requestOptions } = options;
+        const startTime = Date.now();
+        let attempts = 0;
+        let resumed = false;
+
+        while (true) {
+            attempts++;
+            // Only bytes this call wrote are resumed: a file already at the path is emptied first,
+            // unless the caller asked to continue it
+            const truncate = attempts === 1 && !resumeExisting;
+            const file = await open(filePath, constants.O_WRONLY | constants.O_CREAT | (truncate ? constants.O_TRUNC : 0));
+            const offset = (await file.stat()).size;
+            let position = offset;
+            const headers = offset > 0
+                ? { ...requestOptions.headers, Range: `bytes=${offset}-` }
+                : requestOptions.headers;
+
+            let response: StreamingResponse;
+            try {
+                response = await this.stream(url, { ...requestOptions, headers }, fingerprintName);
+
+                // Requested range starts at the end of the file: nothing left to download
+                if (response.statusCode === 416 && offset > 0) {
+                    response.body.destroy();
+                } else if (response.statusCode < 200 || response.statusCode >= 300) {
+                    response.body.destroy();
+                    throw new Error(`Download failed with status ${response.statusCode} ${response.statusText}`);
+                } else {
+                    // Servers that ignore Range answer 200 with the full body, so start over
+                    const append = offset > 0 && response.statusCode === 206;
+                    resumed = resumed || append;
+                    position = append ? offset : 0;
+
+                    const contentLength = parseInt(response.headers['content-length'] || '', 10);
+                    const totalBytes = !isNaN(contentLength) ? contentLength + (append ? offset : 0) : undefined;
+                    const transferStart = Date.now();
+                    let received = 0;
+
+                    // Every chunk is on disk before the next is read, so an interrupted transfer resumes from what arrived
+                    for await (const chunk of response.body) {
+                        await file.write(chunk, 0, chunk.length, position);
+                        position += chunk.length;
+                        received += chunk.length;
+                        if (onProgress) {
+                            const elapsed = Math.max(Date.now() - transferStart, 1) / 1000;
+                            onProgress({
+                                bytesDownloaded: position,
+                                totalBytes,
+                                bytesPerSecond: Math.round(received / elapsed)
+                            });
+                        }
+                    }
+                }
+            } catch (error: any) {
+                // The transfer's own error matters more than one closing the file
+                await this.closeDownloadFile(file, position).catch(() => { });
+
+                // CURLE_PARTIAL_FILE and CURLE_OPERATION_TIMEDOUT leave a usable partial file behind
+                const resumable = error?.curlCode === 18 || error?.curlCode === 28;
+                if (!resume || !resumable || attempts > maxResumeAttempts) {
+                    throw error;
+                }
+
+                debugLogger.logInfo('curl', `Download interrupted, resuming (attempt ${attempts + 1})`, { url, filePath });
+                continue;
+            }
+
+            await this.closeDownloadFile(file, position);
+            return this.finishDownload(filePath, response, { attempts, resumed, startTime, expectedSize, sha256 });
+        }
+    }
+
+    /**
+     * Cut a download file to the bytes written so far, dropping what is left of an older copy
+     * that a restarted transfer wrote over, and close it
+     */
+    private async closeDownloadFile(file: FileHandle, length: number): Promise<void> {
+        try {
+            await file.truncate(length);
+        } finally {
+            await file.close().catch(() => { });
+        }
+    }
+
+    /**
+     * Verify a completed download and build the result
+     */
+    private async finishDownload(
+        filePath: string,
+        response: { statusCode: number; headers: Record<string, string>; url: string },
+        state: { attempts: number; resumed: boolean; startTime: number; expectedSize?: number; sha256?: string }
+    ): Promise<DownloadResult> {
+        const size = await this.getFileSize(filePath);
+
+        if (state.expectedSize !== undefined && size !== state.expectedSize) {
+            throw new Error(`Downloaded file size mismatch: expected ${state.expectedSize} bytes, got ${size}`);
+        }
+
+        let digest: string | undefined;
+        if (state.sha256) {
+            const hash = createHash('sha256');
+            await pipeline(createReadStream(filePath), hash);
+            digest = hash.digest('hex');
+
+            if (digest !== state.sha256.toLowerCase()) {
+                throw new Error(`Downloaded file checksum mismatch: expected sha256 ${state.sha256}, got ${digest}`);
+            }
+        }
+
+        return {
+            path: filePath,
+            size,
+            statusCode: response.statusCode,
+            headers: response.headers,
+            url: response.url,
+            resumed: state.resumed,
+            attempts: state.attempts,
+            duration: Date.now() - state.startTime,
+            sha256: digest
+        };
+    }
+
+    /**
+     * Get size of a file, or 0 when it does not exist
+     */
+    private async getFileSize(filePath: string): Promise<number> {
+        try {
+            return (await stat(filePath)).size;
+        } catch {
+            return 0;
+        }
+    }
+
+    /**
+     * Resolve fingerprint configuration by name, falling back to the default fingerprint
+     */
+    private resolveFingerprint(fingerprintName?: string): FingerprintConfig {
+        const fingerprint = fingerprintName ?
+            getFingerprintConfig(fingerprintName) :
+            getFingerprintConfig('chrome136-macos'); // Default fingerprint
+
+        if (!fingerprint) {
+            throw new Error(`Fingerprint configuration not found: ${fingerprintName || 'default'}`);
+        }
+
+        return fingerprint;
+    }
+
     /**
      * Build curl command arguments with fingerprint configuration
      */
-    private buildCurlArgs(url: string, options: RequestOptions, fingerprint: FingerprintConfig): string[] {
+    private buildCurlArgs(
+        url: string,
+        options: RequestOptions,
+        fingerprint: FingerprintConfig,
+        body: RequestBody | null = null,
+        streaming: boolean = false,
+        writeOut: string = WRITE_OUT_FORMAT
+    ): CurlCommand {
         const args: string[] = [];
+        const config: CurlConfigEntry[] = [];
+
+        // Basic options - include headers in output and verbose (timestamped, for proxy timings) for request headers
+        if (streaming) {
+            // No write-out trailer (it would end up in the body) and no output buffering
+            args.push('-v', '--trace-time', '-i', '-N');
+        } else {
+            args.push('-v', '--trace-time', '-i', '-w', writeOut);
+        }
 
-        // Basic options - include headers in output and verbose for request headers
-        args.push('-v', '-i', '-w', '\\n%{http_code}|%{http_version}|%{size_download}|%{time_total}|%{url_effective}');
-
-        // Method
+        // Method (streamed uploads use -T, which would default to PUT)
         if (options.method && options.method !== 'GET') {
             args.push('-X', options.method);
+        } else if (!options.method && body?.data instanceof Readable) {
+            args.push('-X', 'POST');
         }
 
-        // Normalize all headers to lowercase: 
+        // Lowercased copies for case-insensitive matching
         const toLower = (obj: Record<string, string> | string[]) => {
             if (Array.isArray(obj)) {
                 return obj.map(item => item.toLowerCase());
@@ -148,19 +945,22 @@ export class CurlImpersonate {
         }
 
         const normalizedHeaders = toLower(options.headers || {});
-        const normalizedFingerprintHeaders = toLower(fingerprint.headers);
         const normalizedExplicitHeaders = toLower(options.explicitFingerprintHeaders || []) as string[];
 
+        // Collected in any order with the caller's casing; formatRequestHeaders orders and cases them
+        const requestHeaders: Array<[string, string]> = [];
+        const customNames = new Map(Object.keys(options.headers || {}).map(key => [key.toLowerCase(), key]));
 
-        // Custom headers (can override fingerprint headers) - add first
+        // Custom headers (can override fingerprint headers)
         if (options.headers) {
             for (const [key, value] of Object.entries(normalizedHeaders)) {
-                args.push('-H', `${key}: ${value}`);
+                requestHeaders.push([customNames.get(key)!, value]);
             }
         }
 
         // Add fingerprint headers (skip if overridden by custom headers)
-        for (const [key, value] of Object.entries(normalizedFingerprintHeaders)) {
+        for (const [name, value] of Object.entries(fingerprint.headers)) {
+            const key = name.toLowerCase();
             if (value) {
                 // Check if this header is overridden by custom headers (case-insensitive)
                 const isOverridden = options.headers && Object.keys(normalizedHeaders).some(customKey => customKey === key);
@@ -169,13 +969,13 @@ export class CurlImpersonate {
                 if (options.explicitFingerprintHeaders) {
                     const isExplicit = normalizedExplicitHeaders.some(header => header === key);
                     if (isExplicit) {
-                        args.push('-H', `${key}: ${value}`);
+                        requestHeaders.push([name, value]);
                         continue;
                     }
                 }
                 
                 if (!isOverridden) {
-                    args.push('-H', `${key}: ${value}`);
+                    requestHeaders.push([name, value]);
                 }
             }
         }
@@ -183,11 +983,18 @@ export class CurlImpersonate {
         // Add TLS/Cipher configuration
         args.push('--ciphers', fingerprint.tls.ciphers);
         args.push('--curves', fingerprint.tls.curves);
-        args.push('--http2');
-        args.push('--http2-settings', fingerprint.tls.http2Settings);
-        args.push('--http2-window-update', String(fingerprint.tls.http2WindowUpdate));
-        args.push('--http2-stream-weight', String(fingerprint.tls.http2StreamWeight));
-        args.push('--http2-stream-exclusive', String(fingerprint.tls.http2StreamExclusive));
+
+        // HTTP version; HTTP/3 keeps the HTTP/2 settings for when curl falls back from QUIC
+        const httpVersion = this.resolveHttpVersion(url, options, fingerprint);
+        if (httpVersion === '1.1') {
+            args.push('--http1.1');
+        } else {
+            args.push(httpVersion === '3' ? '--http3' : '--http2');
+            args.push('--http2-settings', fingerprint.tls.http2Settings);
+            args.push('--http2-window-update', String(fingerprint.tls.http2WindowUpdate));
+            args.push('--http2-stream-weight', String(fingerprint.tls.http2StreamWeight));
+            args.push('--http2-stream-exclusive', String(fingerprint.tls.http2StreamExclusive));
+        }
         args.push('--compressed');
 
         // Add TLS options based on configuration
@@ -232,7 +1039,7 @@ export class CurlImpersonate {
         if (fingerprint.tls.tlsKeySharesLimit) {
             args.push('--tls-key-shares-limit', String(fingerprint.tls.tlsKeySharesLimit));
         }
-        if (fingerprint.tls.http2PseudoHeadersOrder) {
+        if (fingerprint.tls.http2PseudoHeadersOrder && httpVersion !== '1.1') {
             args.push('--http2-pseudo-headers-order', fingerprint.tls.http2PseudoHeadersOrder);
         }
 
@@ -246,29 +1053,55 @@ export class CurlImpersonate {
 
 
 
-        // Body
-        if (options.body) {
-            args.push('-d', options.body.toString());
-        } else if (options.json) {
-            args.push('-H', 'Content-Type: application/json');
-            args.push('-d', JSON.stringify(options.json));
-        } else if (options.formData) {
-            for (const [key, value] of Object.entries(options.formData)) {
-                args.push('-F', `${key}=${value}`);
+        // Body - read from stdin byte for byte; streams are uploaded with chunked encoding
+        if (body) {
+            if (body.data instanceof Readable) {
+                args.push('-T', '-');
+            } else {
+                args.push('--data-binary', '@-');
+            }
+
+            // Without a known type, drop the x-www-form-urlencoded default curl would add
+            const hasContentType = Object.keys(options.headers || {}).some(key => key.toLowerCase() === 'content-type');
+            if (!hasContentType && body.contentType) {
+                requestHeaders.push(['Content-Type', body.contentType]);
+            } else if (!hasContentType) {
+                config.push(['header', 'Content-Type:']);
             }
+
+            // Browsers never send Expect: 100-continue, curl does for large uploads
+            config.push(['header', 'Expect:']);
+        }
+
+        // Cookies: the jar's for this URL, then explicit ones, which replace jar cookies of the same name
+        const explicitCookies = options.cookies || {};
+        const cookiePairs = [
+            ...((options.cookieJar ?? this.config.cookieJar)?.getCookies(url) || [])
+                .filter(cookie => !(cookie.name in explicitCookies))
+                .map(cookie => [cookie.name, cookie.value]),
+            ...Object.entries(explicitCookies)
+        ];
+        if (cookiePairs.length > 0) {
+            requestHeaders.push(['Cookie', cookiePairs.map(([key, value]) => `${key}=${value}`).join('; ')]);
         }
 
-        // Cookies
-        if (options.cookies) {
-            const cookieString = Object.entries(options.cookies)
-                .map(([key, value]) => `${key}=${value}`)
-                .join('; ');
-            args.push('-H', `Cookie: ${cookieString}`);
+        // Each header in the fingerprint's slot for it, whoever supplied it
+        for (const [name, value] of formatRequestHeaders(fingerprint, httpVersion, requestHeaders)) {
+            config.push(['header', `${name}: ${value}`]);
         }
 
-        // Timeout
-        if (options.timeout || this.config.defaultTimeout) {
-            args.push('--max-time', String(options.timeout || this.config.defaultTimeout));
+        // Timeouts - configured in milliseconds, curl takes (fractional) seconds
+        const timeouts = this.resolveTimeouts(options);
+        if (timeouts.totalMs) {
+            args.push('--max-time', this.toCurlSeconds(timeouts.totalMs));
+        }
+        if (timeouts.connectMs) {
+            args.push('--connect-timeout', this.toCurlSeconds(timeouts.connectMs));
+        }
+        if (timeouts.stallMs) {
+            // --speed-time only takes whole seconds
+            args.push('--speed-limit', String(timeouts.lowSpeedLimit));
+            args.push('--speed-time', String(Math.max(1, Math.ceil(timeouts.stallMs / 1000))));
         }
 
         // Redirects
@@ -284,38 +1117,375 @@ export class CurlImpersonate {
             args.push('-k');
         }
 
-        // Proxy
-        if (options.proxy) {
-            if (typeof options.proxy === 'string') {
-                args.push('-x', options.proxy);
+        // Client certificate, CA bundle and pinning
+        const pemFiles: Array<[string, PemSource]> = [];
+        const addPem = (name: string, source: PemSource | undefined) => {
+            if (source === undefined) {
+                return;
+            }
+            if (this.isInMemoryPem(source)) {
+                pemFiles.push([name, source]);
             } else {
-                // Handle ProxyConfig object
-                const proxyString = `${options.proxy.protocol}://${options.proxy.username ? options.proxy.username + ':' + options.proxy.password + '@' : ''}${options.proxy.host}:${options.proxy.port}`;
-                args.push('-x', proxyString);
+                config.push([name, source as string]);
+            }
+        };
+        const tls = this.resolveTls(options);
+        addPem('cert', tls.clientCert);
+        addPem('key', tls.clientKey);
+        if (tls.passphrase !== undefined) {
+            config.push(['pass', tls.passphrase]);
+        }
+        addPem('cacert', tls.caBundle);
+        addPem('pinnedpubkey', Array.isArray(tls.pinnedPublicKey) ? tls.pinnedPublicKey.join(';') : tls.pinnedPublicKey);
+
+        // Proxy
+        const proxy = this.resolveProxy(url, options);
+        if (proxy) {
+            config.push(['proxy', formatProxyUrl(proxy)]);
+            for (const [name, value] of Object.entries(proxy.headers || {})) {
+                config.push(['proxy-header', `${name}: ${value}`]);
+            }
+            if (proxy.preproxy) {
+                const preproxy = typeof proxy.preproxy === 'string' ? parseProxy(proxy.preproxy) : proxy.preproxy;
+                config.push(['preproxy', formatProxyUrl(preproxy)]);
+            }
+            if (proxy.tls) {
+                addPem('proxy-cert', proxy.tls.clientCert);
+                addPem('proxy-key', proxy.tls.clientKey);
+                if (proxy.tls.passphrase !== undefined) {
+                    config.push(['proxy-pass', proxy.tls.passphrase]);
+                }
+                addPem('proxy-cacert', proxy.tls.caBundle);
+                const pins = proxy.tls.pinnedPublicKey;
+                addPem('proxy-pinnedpubkey', Array.isArray(pins) ? pins.join(';') : pins);
+                if (proxy.tls.verify === false) {
+                    args.push('--proxy-insecure');
+                }
             }
         }
 
-        // URL
-        args.push(url);
+        // DNS and routing
+        const routing = this.resolveRouting(options);
+        for (const entry of routing.resolve || []) {
+            config.push(['resolve', typeof entry === 'string' ? entry : this.formatResolveEntry(entry)]);
+        }
+        for (const entry of routing.connectTo || []) {
+            config.push(['connect-to', typeof entry === 'string' ? entry : this.formatConnectToEntry(entry)]);
+        }
+        if (routing.dohUrl) {
+            config.push(['doh-url', routing.dohUrl]);
+        }
+        if (routing.ipVersion === 4) {
+            args.push('--ipv4');
+        } else if (routing.ipVersion === 6) {
+            args.push('--ipv6');
+        }
+        if (routing.interface && routing.localAddress) {
+            config.push(['interface', `ifhost!${routing.interface}!${routing.localAddress}`]);
+        } else if (routing.interface) {
+            config.push(['interface', `if!${routing.interface}`]);
+        } else if (routing.localAddress) {
+            config.push(['interface', `host!${routing.localAddress}`]);
+        }
+
+        // URL (query strings often carry tokens too)
+        config.push(['url', url]);
 
-        return args;
+        return pemFiles.length > 0 ? { args, config, pemFiles } : { args, config };
     }
 
     /**
-     * Execute curl command
+     * TLS settings for a request: each field its own, else the instance default
      */
-    private executeCurl(args: string[], url?: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            const child = spawn(this.binaryPath, args, {
-                stdio: ['pipe', 'pipe', 'pipe'],
-                shell: false
-            });
+    private resolveTls(options: RequestOptions): TlsOptions {
+        return { ...this.config.tls, ...options.tls };
+    }
 
-            let stdout = '';
-            let stderr = '';
+    /**
+     * Proxy for a request: its own, else the instance's unless noProxy excludes the URL, else the
+     * environment's when proxyFromEnv is set
+     */
+    private resolveProxy(url: string, options: RequestOptions): ProxyConfig | undefined {
+        if (options.proxy) {
+            return typeof options.proxy === 'string' ? parseProxy(options.proxy) : options.proxy;
+        }
+        if (this.config.proxy && !matchesNoProxy(url, this.config.noProxy || [])) {
+            return typeof this.config.proxy === 'string' ? parseProxy(this.config.proxy) : this.config.proxy;
+        }
+        return this.config.proxyFromEnv ? getProxyFromEnv(url) : undefined;
+    }
 
-            child.stdout.on('data', (data) => {
-                stdout += data.toString();
+    private isInMemoryPem(source: PemSource): boolean {
+        return Buffer.isBuffer(source) || source.trimStart().startsWith('-----BEGIN');
+    }
+
+    /**
+     * DNS and routing settings for a request: its own, else the instance defaults
+     */
+    private resolveRouting(options: RequestOptions): RoutingOptions {
+        return {
+            resolve: options.resolve ?? this.config.resolve,
+            connectTo: options.connectTo ?? this.config.connectTo,
+            dohUrl: options.dohUrl ?? this.config.dohUrl,
+            ipVersion: options.ipVersion ?? this.config.ipVersion,
+            localAddress: options.localAddress ?? this.config.localAddress,
+            interface: options.interface ?? this.config.interface
+        };
+    }
+
+    /**
+     * --resolve value: host:port:addr[,addr], with IPv6 addresses in brackets
+     */
+    private formatResolveEntry(entry: ResolveEntry): string {
+        const addresses = Array.isArray(entry.address) ? entry.address : [entry.address];
+        return `${entry.host}:${entry.port ?? 443}:${addresses.map(address => this.bracketIPv6(address)).join(',')}`;
+    }
+
+    /**
+     * --connect-to value: host:port:toHost:toPort, where an empty part matches or keeps anything
+     */
+    private formatConnectToEntry(entry: ConnectToEntry): string {
+        return [entry.host ?? '', entry.port ?? '', entry.toHost ? this.bracketIPv6(entry.toHost) : '', entry.toPort ?? ''].join(':');
+    }
+
+    private bracketIPv6(address: string): string {
+        return address.includes(':') && !address.startsWith('[') ? `[${address}]` : address;
+    }
+
+    /**
+     * Wait for a free curl process slot, then prepare the run; cleaning up the invocation gives the slot back
+     */
+    private async prepareScheduledInvocation(
+        url: string,
+        options: RequestOptions,
+        fingerprint: FingerprintConfig,
+        streaming: boolean
+    ): Promise<CurlInvocation> {
+        const release = await this.scheduler.acquire({
+            priority: options.priority,
+            queueTimeoutMs: options.queueTimeoutMs,
+            signal: options.signal
+        });
+
+        try {
+            const body = await buildRequestBody(options, fingerprint);
+            const { commands, transport } = await this.prepareCommands([this.buildCurlArgs(url, options, fingerprint, body, streaming)]);
+            const invocation = await this.prepareInvocation(commands[0], body, transport);
+            return {
+                ...invocation,
+                cleanup: async () => {
+                    release();
+                    await invocation.cleanup();
+                }
+            };
+        } catch (error) {
+            release();
+            throw error;
+        }
+    }
+
+    /**
+     * Pick the transport that runs the commands; for the binary, first check that it supports
+     * every fingerprint option used, dropping (with a warning) or failing on the ones it lacks
+     */
+    private async prepareCommands(commands: CurlCommand[]): Promise<{ commands: CurlCommand[]; transport: Transport }> {
+        if (this.config.transport) {
+            return { commands, transport: this.config.transport };
+        }
+
+        const capabilities = await this.getCapabilities();
+        return {
+            commands: commands.map(command => this.adaptToCapabilities(command, capabilities)),
+            transport: new CliTransport(capabilities.path)
+        };
+    }
+
+    /**
+     * Remove fingerprint options the binary doesn't list, or throw when dropping them isn't allowed
+     */
+    private adaptToCapabilities(command: CurlCommand, capabilities: CurlCapabilities): CurlCommand {
+        // Without an option list (no --help all) there is nothing to check against
+        if (capabilities.options.length === 0) {
+            return command;
+        }
+
+        const args: string[] = [];
+        const unsupported: string[] = [];
+        for (let index = 0; index < command.args.length; index++) {
+            const arg = command.args[index];
+            const takesValue = FINGERPRINT_OPTIONS[arg];
+            // Negated options are listed under their positive name
+            const isSupported = takesValue === undefined ||
+                capabilities.options.includes(arg) ||
+                capabilities.options.includes(arg.replace(/^--no-/, '--'));
+
+            if (isSupported) {
+                args.push(arg);
+                continue;
+            }
+
+            unsupported.push(arg);
+            if (takesValue) {
+                index++;
+            }
+        }
+
+        if (unsupported.length === 0) {
+            return command;
+        }
+
+        if (this.config.unsupportedOptions !== 'drop') {
+            throw new CurlBinaryError(
+                `${capabilities.path} (curl ${capabilities.version}) does not support ${unsupported.join(', ')}, which the fingerprint uses; ` +
+                `install a curl-impersonate build that does, or set unsupportedOptions: 'drop'`,
+                'UNSUPPORTED_OPTION',
+                unsupported
+            );
+        }
+
+        const unwarned = unsupported.filter(option => !this.warnedOptions.has(option));
+        if (unwarned.length > 0) {
+            unwarned.forEach(option => this.warnedOptions.add(option));
+            debugLogger.logInfo('curl', `curl-impersonate at ${capabilities.path} does not support ${unwarned.join(', ')}; sending requests without them`);
+        }
+        return { ...command, args };
+    }
+
+    /**
+     * Decide how config and body reach curl: config goes on stdin unless the body needs it,
+     * in which case it is written to a private temporary file
+     */
+    private async prepareInvocation(command: CurlCommand, body: RequestBody | null, transport: Transport): Promise<CurlInvocation> {
+        const pem = await this.writePemFiles([command]);
+        command = pem.commands[0];
+        const config = renderCurlConfig(command.config);
+        const debugArgs = [...command.args, ...redactCurlConfig(command.config)];
+
+        if (!body) {
+            return {
+                transport,
+                args: [...command.args, '-K', '-'],
+                input: Buffer.from(config, 'utf8'),
+                debugArgs,
+                cleanup: pem.cleanup
+            };
+        }
+
+        try {
+            const configFile = await writePrivateConfigFile(config);
+            return {
+                transport,
+                args: [...command.args, '-K', configFile.path],
+                input: body.data,
+                debugArgs,
+                cleanup: async () => {
+                    await configFile.cleanup();
+                    await pem.cleanup();
+                }
+            };
+        } catch (error) {
+            await pem.cleanup();
+            throw error;
+        }
+    }
+
+    /**
+     * Give each transfer of a batched run its own private config file; stdin can only be read once
+     */
+    private async prepareBatchInvocation(commands: CurlCommand[], transport: Transport): Promise<CurlInvocation> {
+        const pem = await this.writePemFiles(commands);
+        commands = pem.commands;
+        let configFiles: { paths: string[]; cleanup: () => Promise<void> };
+        try {
+            configFiles = await writePrivateConfigFiles(commands.map(command => renderCurlConfig(command.config)));
+        } catch (error) {
+            await pem.cleanup();
+            throw error;
+        }
+        // --next resets per-transfer options, so every transfer repeats its full set. Transfers run
+        // side by side and write to files of their own next to the config files, read back after the run.
+        const separator = (index: number) => index > 0 ? ['--next'] : [];
+        const outputs = configFiles.paths.map((path, index) => join(dirname(path), `transfer-${index}.out`));
+        const globalArgs = ['--parallel', '--parallel-max', String(commands.length), '--trace-ids'];
+
+        return {
+            transport,
+            args: [...globalArgs, ...commands.flatMap((command, index) =>
+                [...separator(index), ...command.args, '-K', configFiles.paths[index], '-o', outputs[index]])],
+            debugArgs: [...globalArgs, ...commands.flatMap((command, index) =>
+                [...separator(index), ...command.args, ...redactCurlConfig(command.config), '-o', outputs[index]])],
+            outputs,
+            cleanup: async () => {
+                await configFiles.cleanup();
+                await pem.cleanup();
+            }
+        };
+    }
+
+    /**
+     * Write the in-memory PEM certificates and keys of the commands to private files, and point
+     * their config at them; the files live until cleanup, after curl has read them
+     */
+    private async writePemFiles(commands: CurlCommand[]): Promise<{ commands: CurlCommand[]; cleanup: () => Promise<void> }> {
+        const files = commands.flatMap((command, commandIndex) =>
+            (command.pemFiles || []).map(([name, data]): [string, PemSource] => [`${commandIndex}-${name}.pem`, data]));
+        if (files.length === 0) {
+            return { commands, cleanup: async () => { } };
+        }
+
+        const written = await writePrivateFiles(files);
+        let fileIndex = 0;
+        return {
+            commands: commands.map(({ pemFiles, ...command }) => ({
+                ...command,
+                config: [...command.config, ...(pemFiles || []).map(([name]): CurlConfigEntry => [name, written.paths[fileIndex++]])]
+            })),
+            cleanup: written.cleanup
+        };
+    }
+
+    /**
+     * Execute curl command; with allowTransferErrors a non-zero exit still resolves, for batched
+     * runs whose exit code only reflects the last transfer
+     */
+    private executeCurl(
+        invocation: CurlInvocation,
+        url?: string,
+        options: RequestOptions = {},
+        allowTransferErrors: boolean = false
+    ): Promise<CurlResult> {
+        const { args, debugArgs } = invocation;
+        const { signal } = options;
+
+        return new Promise((resolve, reject) => {
+            const child = invocation.transport.spawn(args);
+
+            this.writeStdin(child.stdin, invocation.input);
+
+            // Keep stdout as raw bytes so binary bodies survive untouched
+            const stdoutChunks: Buffer[] = [];
+            let stderr = '';
+
+            // Set once curl is killed on purpose; its exit status no longer matters then
+            let terminated = false;
+            const terminate = (error: Error) => {
+                terminated = true;
+                watchdog.stop();
+                child.kill();
+                reject(error);
+            };
+
+            const watchdog = this.startWatchdog(options, message =>
+                terminate(this.createExitError(28, message, Buffer.concat(stdoutChunks).toString('utf8'), Buffer.concat(stdoutChunks))));
+            const onAbort = () => terminate(createAbortError(signal!));
+            signal?.addEventListener('abort', onAbort, { once: true });
+            if (signal?.aborted) {
+                onAbort();
+            }
+
+            child.stdout.on('data', (data: Buffer) => {
+                stdoutChunks.push(data);
+                watchdog.touch();
             });
 
             child.stderr.on('data', (data) => {
@@ -323,9 +1493,21 @@ export class CurlImpersonate {
             });
 
             child.on('close', (code) => {
-                if (code === 0) {
+                watchdog.stop();
+                signal?.removeEventListener('abort', onAbort);
+                if (terminated) {
+                    return;
+                }
+
+                const output = Buffer.concat(stdoutChunks);
+                const stdout = output.toString('utf8');
+                const trace = parseVerboseTrace(stderr);
+                // Verbose output echoes request headers, including cookies and credentials
+                stderr = redactVerboseOutput(trace.text);
+
+                if (code === 0 || (allowTransferErrors && code !== null)) {
                     // Debug logging with file saving
-                    debugLogger.logRawCurlWithFile(args, stdout, stderr, 'curl-success', url);
+                    debugLogger.logRawCurlWithFile(debugArgs, stdout, stderr, code === 0 ? 'curl-success' : 'curl-error', url);
 
                     // Extract request headers from stderr (verbose output)
                     const requestHeaders = this.extractRequestHeadersFromStderr(stderr || '');
@@ -333,135 +1515,485 @@ export class CurlImpersonate {
                         debugLogger.logRequestHeadersWithFile(url, requestHeaders, 'curl-request');
                     }
 
-                    resolve(stdout);
+                    resolve({ stdout: output, stderr, trace: trace.lines, exitCode: code });
                 } else {
                     // Debug logging with file saving
-                    debugLogger.logRawCurlWithFile(args, stdout, stderr, 'curl-error', url);
+                    debugLogger.logRawCurlWithFile(debugArgs, stdout, stderr, 'curl-error', url);
+
+                    reject(this.createExitError(code, stderr, stdout, output));
+                }
+            });
+
+            child.on('error', (error) => {
+                watchdog.stop();
+                signal?.removeEventListener('abort', onAbort);
+                // Debug logging with file saving
+                debugLogger.logRawCurlWithFile(debugArgs, '', error.message, 'curl-spawn-error', url);
+                reject(error);
+            });
+        });
+    }
+
+    /**
+     * Execute curl command and resolve once the final response headers have been read
+     */
+    private executeCurlStream(invocation: CurlInvocation, url: string, options: RequestOptions, fingerprint?: string): Promise<StreamingResponse> {
+        const { args, debugArgs } = invocation;
+        // Errors before the headers are typed by stream(); those of the body stream here
+        const toBodyError = (error: Error) =>
+            error instanceof AbortError ? error : this.parseError(error, { url, options, fingerprint, args: debugArgs });
+
+        // Nothing awaits the stream's end, so a failed cleanup (e.g. of temp config files) is dropped
+        const cleanup = () => invocation.cleanup().catch(() => {});
+
+        return new Promise((resolve, reject) => {
+            const child = invocation.transport.spawn(args);
+
+            this.writeStdin(child.stdin, invocation.input);
+
+            let stderr = '';
+            let pending = Buffer.alloc(0);
+            let currentUrl = url;
+            const redirects: RedirectHop[] = [];
+            let head: { statusCode: number; headers: Record<string, string> } | null = null;
+            let exited = false;
+            let terminated = false;
+
+            // Body pulls from curl on demand: pausing stdout stops curl once the pipe fills up
+            const body = new Readable({
+                read() {
+                    watchdog.touch();
+                    child.stdout.resume();
+                },
+                destroy(error, callback) {
+                    if (!exited) {
+                        child.kill();
+                    }
+                    callback(error);
+                }
+            });
+
+            const pushBody = (chunk: Buffer) => {
+                if (chunk.length > 0 && !body.push(chunk)) {
+                    child.stdout.pause();
+                }
+            };
+
+            // Before the headers arrive the promise rejects; afterwards the body stream errors
+            const terminate = (error: Error) => {
+                terminated = true;
+                watchdog.stop();
+                if (head) {
+                    body.destroy(toBodyError(error));
+                } else {
+                    child.kill();
+                    reject(error);
+                }
+            };
+
+            // A consumer that stops reading for longer than the stall timeout counts as a stall, as it does for curl
+            const watchdog = this.startWatchdog(options, message => terminate(this.createExitError(28, message, '')));
+            const onAbort = () => terminate(createAbortError(options.signal!));
+            options.signal?.addEventListener('abort', onAbort, { once: true });
+            if (options.signal?.aborted) {
+                onAbort();
+            }
+
+            child.stdout.on('data', (data: Buffer) => {
+                watchdog.touch();
+                if (head) {
+                    pushBody(data);
+                    return;
+                }
+
+                pending = Buffer.concat([pending, data]);
+
+                // Consume header sections until the final response is reached
+                while (pending.length >= 5) {
+                    if (pending.subarray(0, 5).toString('latin1') !== 'HTTP/') {
+                        return;
+                    }
+
+                    const section = this.findHeaderSectionEnd(pending, 0);
+                    if (!section) {
+                        return;
+                    }
+
+                    const block = this.parseHeaderBlock(pending.subarray(0, section.end).toString('latin1'));
+                    pending = pending.subarray(section.next);
+                    if (!block) {
+                        continue;
+                    }
+
+                    const { statusCode, reasonPhrase, rawHeaders } = block;
+                    const headers = this.combineHeaders(rawHeaders);
+
+                    // Interim responses, proxy tunnels and followed redirects are followed by another section
+                    const isInterim = statusCode < 200 || /connection established/i.test(reasonPhrase);
+                    const isFollowedRedirect = statusCode >= 300 && statusCode < 400 &&
+                        !!headers['location'] && options.followRedirects !== false;
+
+                    if (isFollowedRedirect) {
+                        redirects.push({ url: currentUrl, statusCode, headers, rawHeaders });
+                        currentUrl = new URL(headers['location'], currentUrl).toString();
+                    }
+                    if (isInterim || isFollowedRedirect) {
+                        continue;
+                    }
+
+                    head = { statusCode, headers };
+                    resolve({
+                        statusCode,
+                        statusText: reasonPhrase || this.getStatusText(statusCode),
+                        headers,
+                        rawHeaders,
+                        url: currentUrl,
+                        redirects,
+                        body
+                    });
+                    pushBody(pending);
+                    pending = Buffer.alloc(0);
+                    return;
+                }
+            });
+
+            child.stderr.on('data', (data) => {
+                stderr += data.toString();
+            });
+
+            child.on('close', (code) => {
+                exited = true;
+                cleanup();
+                watchdog.stop();
+                options.signal?.removeEventListener('abort', onAbort);
+                // Verbose output echoes request headers, including cookies and credentials
+                stderr = redactVerboseOutput(parseVerboseTrace(stderr).text);
+
+                // Debug logging with file saving
+                debugLogger.logRawCurlWithFile(debugArgs, '', stderr, code === 0 ? 'curl-stream-success' : 'curl-stream-error', url);
 
-                    // Create detailed error message with CURL error code information
-                    const errorInfo = code !== null && code in CURL_ERROR_CODES ? CURL_ERROR_CODES[code] : null;
-                    const errorMessage = errorInfo
-                        ? `Curl failed with code ${code} (${errorInfo.name}): ${errorInfo.description}. Stderr: ${stderr}`
-                        : `Curl failed with code ${code}: ${stderr}`;
+                if (terminated) {
+                    return;
+                }
+                if (code === 0 && head) {
+                    body.push(null);
+                    return;
+                }
 
-                    const error = new Error(errorMessage);
-                    // Add CURL error code as a property for easier access
-                    (error as any).curlCode = code;
-                    (error as any).curlCodeName = errorInfo?.name;
-                    (error as any).stderr = stderr;
-                    (error as any).stdout = stdout;
+                const error = code === 0
+                    ? new Error('Curl exited before response headers were received')
+                    : this.createExitError(code, stderr, pending.toString('utf8'));
 
+                if (head) {
+                    body.destroy(toBodyError(error));
+                } else {
                     reject(error);
                 }
             });
 
             child.on('error', (error) => {
+                exited = true;
+                cleanup();
+                watchdog.stop();
+                options.signal?.removeEventListener('abort', onAbort);
+
                 // Debug logging with file saving
-                debugLogger.logRawCurlWithFile(args, '', error.message, 'curl-spawn-error', url);
-                reject(error);
+                debugLogger.logRawCurlWithFile(debugArgs, '', error.message, 'curl-spawn-error', url);
+                if (head) {
+                    body.destroy(toBodyError(error));
+                } else {
+                    reject(error);
+                }
             });
         });
     }
 
     /**
-     * Parse curl response with headers
+     * Resolve request timeouts against the instance defaults; 0 disables a limit
      */
-    private parseResponse(output: string, originalUrl: string, responseTime: number, options: RequestOptions = {}): HttpResponse {
-        const lines = output.split('\n');
+    private resolveTimeouts(options: RequestOptions): TimeoutSettings {
+        return {
+            totalMs: options.totalTimeoutMs ?? options.timeout ?? this.config.defaultTotalTimeoutMs ?? this.config.defaultTimeout,
+            connectMs: options.connectTimeoutMs ?? this.config.defaultConnectTimeoutMs,
+            stallMs: options.stallTimeoutMs ?? this.config.defaultStallTimeoutMs,
+            lowSpeedLimit: options.lowSpeedLimit ?? 1
+        };
+    }
 
-        // Step 1: Find and remove the curl status line (last line with format: 200|2|3761|8.499299|https://www.autotrader.com/)
-        let statusLine = '';
-        let responseLines: string[] = [];
+    /**
+     * Format milliseconds as a seconds value for curl's timeout options
+     */
+    private toCurlSeconds(ms: number): string {
+        return String(Math.round(ms) / 1000);
+    }
+
+    /**
+     * Back curl's own timeouts with timers on the Node side, in case curl itself hangs
+     * (e.g. on a stuck resolver or a blocked pipe); touch() marks transfer progress
+     */
+    private startWatchdog(options: RequestOptions, onTimeout: (message: string) => void): { touch: () => void; stop: () => void } {
+        const { totalMs, stallMs } = this.resolveTimeouts(options);
+        let totalTimer: NodeJS.Timeout | undefined;
+        let stallTimer: NodeJS.Timeout | undefined;
+        let stopped = false;
+
+        if (totalMs) {
+            totalTimer = setTimeout(() => onTimeout(`Operation timed out after ${totalMs} milliseconds`), totalMs + WATCHDOG_GRACE_MS);
+        }
 
-        for (let i = lines.length - 1; i >= 0; i--) {
-            const line = lines[i];
-            if (line.match(/^[0-9]{3}\|[0-9]+\|[0-9]+\|[0-9.]+\|.+$/)) {
-                statusLine = line;
-                responseLines = lines.slice(0, i);
-                break;
+        return {
+            // Only armed once output starts, so slow connects are left to the connect timeout
+            touch: () => {
+                if (!stallMs || stopped) {
+                    return;
+                }
+                clearTimeout(stallTimer);
+                stallTimer = setTimeout(() => onTimeout(`Transfer stalled for ${stallMs} milliseconds`), stallMs + WATCHDOG_GRACE_MS);
+            },
+            stop: () => {
+                stopped = true;
+                clearTimeout(totalTimer);
+                clearTimeout(stallTimer);
             }
+        };
+    }
+
+    /**
+     * Feed the request body to curl's stdin
+     */
+    private writeStdin(stdin: Writable, input?: Buffer | Readable): void {
+        // curl may exit before reading everything (e.g. connection refused); the exit code reports that
+        stdin.on('error', () => { });
+
+        if (input instanceof Readable) {
+            input.pipe(stdin);
+        } else {
+            stdin.end(input);
         }
+    }
+
+    /**
+     * Create error for a non-zero curl exit code with CURL error code information
+     */
+    private createExitError(code: number | null, stderr: string, stdout: string, output?: Buffer): Error {
+        const errorInfo = code !== null && code in CURL_ERROR_CODES ? CURL_ERROR_CODES[code] : null;
+        const errorMessage = errorInfo
+            ? `Curl failed with code ${code} (${errorInfo.name}): ${errorInfo.description}. Stderr: ${stderr}`
+            : `Curl failed with code ${code}: ${stderr}`;
+
+        const error = new Error(errorMessage);
+        // Add CURL error code as a property for easier access
+        (error as any).curlCode = code;
+        (error as any).curlCodeName = errorInfo?.name;
+        (error as any).stderr = stderr;
+        (error as any).stdout = stdout;
+        // Raw bytes, from which parseError recovers a partial response
+        (error as any).output = output;
+
+        return error;
+    }
 
-        if (!statusLine) {
-            throw new Error('Could not find curl status line in response');
+    /**
+     * Parse curl response with headers
+     */
+    private parseResponse(
+        output: Buffer,
+        originalUrl: string,
+        responseTime: number,
+        options: RequestOptions = {},
+        verbose: { text: string; lines: TraceLine[] } = { text: '', lines: [] }
+    ): HttpResponse {
+        // Step 1: Split off the write-out trailer (format: 1234|{"response_code":200,...}).
+        // It always follows the last newline, so everything before that newline is the raw response.
+        const trailerStart = output.lastIndexOf(0x0a);
+        const trailer = trailerStart >= 0 ? output.subarray(trailerStart + 1).toString('utf8').trim() : '';
+        const trailerMatch = trailer.match(/^([0-9]+)\|(\{.*\})$/);
+
+        if (!trailerMatch) {
+            throw new Error('Could not find curl write-out trailer in response');
         }
 
-        const [statusCode, httpVersion, size, timeTotal, effectiveUrl] = statusLine.split('|');
+        const headerSize = parseInt(trailerMatch[1], 10);
+        const transferInfo = JSON.parse(trailerMatch[2]);
 
-        // Step 2: Parse response header sections and find body
-        const headers: Record<string, string> = {};
-        let bodyLines: string[] = [];
-        let headerSectionCount = 0;
-        let inHeaders = false;
-        let emptyLineCount = 0;
-        let isSecondHeaderSection = false;
-
-        for (let i = 0; i < responseLines.length; i++) {
-            const line = responseLines[i];
-
-            // Check if this line starts a new HTTP section
-            if (line.startsWith('HTTP/')) {
-                headerSectionCount++;
-                inHeaders = true;
-
-                // If this is the second HTTP section, mark it as the one we want to parse
-                if (headerSectionCount === 2) {
-                    isSecondHeaderSection = true;
-                }
-                continue;
-            }
+        // Step 2: Header blocks (proxy CONNECT, interim and redirect responses precede the final one)
+        // take exactly headerSize bytes; the rest is the body, sliced off without ever being decoded
+        const blocks = this.parseHeaderBlocks(output.subarray(0, headerSize));
+        const rawBody = output.subarray(headerSize, trailerStart);
+
+        const finalBlock = blocks[blocks.length - 1];
+        const redirects = this.collectRedirects(blocks.slice(0, -1), originalUrl);
+        const statusCode = finalBlock ? finalBlock.statusCode : Number(transferInfo.response_code);
+        const rawHeaders = finalBlock ? finalBlock.rawHeaders : [];
+        const headers = this.combineHeaders(rawHeaders);
+        const hasTimings = typeof transferInfo.time_total === 'number';
+
+        // Step 3: Decode the body in the charset the server (or the page itself) declares
+        const decoded = options.responseType === 'buffer'
+            ? undefined
+            : decodeBody(rawBody, headers['content-type'], options.charset);
+
+        return {
+            statusCode,
+            statusText: finalBlock?.reasonPhrase || this.getStatusText(statusCode),
+            headers,
+            rawHeaders,
+            body: decoded ? decoded.text : '',
+            rawBody,
+            encoding: decoded?.encoding,
+            url: transferInfo.url_effective || originalUrl,
+            redirects,
+            responseTime,
+            size: Number(transferInfo.size_download),
+            timings: hasTimings ? getResponseTimings(transferInfo, verbose.lines) : undefined,
+            connection: hasTimings ? getConnectionInfo(transferInfo, verbose.text, !!this.resolveProxy(originalUrl, options)) : undefined
+        };
+    }
 
-            // If we're in headers and find an empty line, count it
-            if (inHeaders && line.trim() === '') {
-                emptyLineCount++;
-                inHeaders = false;
+    /**
+     * Read each transfer of a batched run back from its output file and its write-out line,
+     * rebuilt as <response bytes>\n<size_header>|<json>, the shape parseResponse expects.
+     * Transfers curl never finished have no write-out and come back undefined.
+     */
+    private async readBatchOutput(stdout: Buffer, marker: string, outputs: string[]): Promise<Array<BatchTransferOutput | undefined>> {
+        const trailers = new Map<number, string>();
+        for (const line of stdout.toString('utf8').split('\n')) {
+            const markerStart = line.indexOf(marker);
+            if (markerStart < 0) {
                 continue;
             }
+            const trailerMatch = line.substring(markerStart + marker.length).match(/^(\d+)\|([0-9]+\|\{.*\})$/);
+            if (!trailerMatch) {
+                throw new Error('Could not parse curl write-out trailer of a batched transfer');
+            }
+            trailers.set(Number(trailerMatch[1]), trailerMatch[2]);
+        }
 
-            // If we're in headers, parse key:value format
-            if (inHeaders && line.includes(':')) {
-                // Only save headers from the second section (if there are 2 sections)
-                if (headerSectionCount === 1 || isSecondHeaderSection) {
-                    const colonIndex = line.indexOf(':');
-                    const key = line.substring(0, colonIndex).toLowerCase();
-                    const value = line.substring(colonIndex + 1).trim();
-                    headers[key] = value;
-                }
-                continue;
+        return Promise.all(outputs.map(async (path, index) => {
+            const trailer = trailers.get(index);
+            if (trailer === undefined) {
+                return undefined;
             }
+            const transferInfo = JSON.parse(trailer.substring(trailer.indexOf('|') + 1));
+            // A transfer that failed before any response never created its file
+            const output = await readFile(path).catch(() => Buffer.alloc(0));
+
+            return {
+                output: Buffer.concat([output, Buffer.from(`\n${trailer}`)]),
+                exitCode: Number(transferInfo.exitcode) || 0,
+                errorMessage: transferInfo.errormsg ?? null,
+                totalTime: transferInfo.time_total,
+                transferId: typeof transferInfo.xfer_id === 'number' ? transferInfo.xfer_id : undefined
+            };
+        }));
+    }
+
+    /**
+     * Split a run of header blocks, each ending with a blank line, and parse every one of them
+     */
+    private parseHeaderBlocks(headerBytes: Buffer): ResponseHeaderBlock[] {
+        const blocks: ResponseHeaderBlock[] = [];
+        let offset = 0;
 
-            // If we've found 2 empty lines (proxy headers + HTTP headers), this is the body
-            if (emptyLineCount >= 2 && line.trim() !== '') {
-                bodyLines = responseLines.slice(i);
-                break;
+        while (offset < headerBytes.length) {
+            const section = this.findHeaderSectionEnd(headerBytes, offset);
+            const end = section ? section.end : headerBytes.length;
+            const block = this.parseHeaderBlock(headerBytes.subarray(offset, end).toString('latin1'));
+
+            if (block) {
+                blocks.push(block);
             }
+            offset = section ? section.next : headerBytes.length;
+        }
+
+        return blocks;
+    }
 
-            // If we've found 1 empty line and this is not an empty line, this is the body (no proxy)
-            if (emptyLineCount === 1 && line.trim() !== '' && !line.startsWith('HTTP/')) {
-                bodyLines = responseLines.slice(i);
-                break;
+    /**
+     * Turn the redirect responses curl followed with -L into hops, resolving each Location in turn
+     */
+    private collectRedirects(blocks: ResponseHeaderBlock[], originalUrl: string): RedirectHop[] {
+        const redirects: RedirectHop[] = [];
+        let currentUrl = originalUrl;
+
+        for (const block of blocks) {
+            const headers = this.combineHeaders(block.rawHeaders);
+
+            // Proxy CONNECT, interim and auth retry blocks are not hops
+            if (block.statusCode < 300 || block.statusCode >= 400 || !headers['location']) {
+                continue;
             }
+
+            redirects.push({ url: currentUrl, statusCode: block.statusCode, headers, rawHeaders: block.rawHeaders });
+            currentUrl = new URL(headers['location'], currentUrl).toString();
+        }
+
+        return redirects;
+    }
+
+    /**
+     * Find the blank line terminating the header section starting at offset
+     */
+    private findHeaderSectionEnd(output: Buffer, offset: number): { end: number; next: number } | null {
+        const crlf = output.indexOf('\r\n\r\n', offset, 'latin1');
+        const lf = output.indexOf('\n\n', offset, 'latin1');
+
+        if (crlf >= 0 && (lf < 0 || crlf <= lf)) {
+            return { end: crlf, next: crlf + 4 };
+        }
+        if (lf >= 0) {
+            return { end: lf, next: lf + 2 };
+        }
+        return null;
+    }
+
+    /**
+     * Parse a single header block (status line followed by name: value lines), keeping names as sent
+     */
+    private parseHeaderBlock(section: string): ResponseHeaderBlock | null {
+        const lines = section.split(/\r?\n/);
+        const statusMatch = lines[0].match(/^HTTP\/([0-9.]+) ([0-9]{3})(?: (.*))?$/);
+
+        if (!statusMatch) {
+            return null;
         }
 
-        // Extract body
-        const body = bodyLines.join('\n');
+        const rawHeaders: Array<[string, string]> = [];
+        for (const line of lines.slice(1)) {
+            // Obsolete line folding continues the previous header value
+            if (/^[ \t]/.test(line) && rawHeaders.length > 0) {
+                rawHeaders[rawHeaders.length - 1][1] += ` ${line.trim()}`;
+                continue;
+            }
 
-        // Set default content-type if not present
-        if (!headers['content-type']) {
-            headers['content-type'] = 'application/json';
+            const colonIndex = line.indexOf(':');
+            if (colonIndex > 0) {
+                rawHeaders.push([line.substring(0, colonIndex).trim(), line.substring(colonIndex + 1).trim()]);
+            }
         }
 
         return {
-            statusCode: parseInt(statusCode, 10),
-            statusText: this.getStatusText(parseInt(statusCode, 10)),
-            headers,
-            body,
-            url: effectiveUrl || originalUrl,
-            responseTime,
-            size: parseInt(size, 10)
+            httpVersion: statusMatch[1],
+            statusCode: parseInt(statusMatch[2], 10),
+            reasonPhrase: (statusMatch[3] || '').trim(),
+            rawHeaders
         };
     }
 
+    /**
+     * Build the lowercase header map, joining repeated headers with ', ' like fetch's Headers
+     */
+    private combineHeaders(rawHeaders: Array<[string, string]>): Record<string, string> {
+        const headers: Record<string, string> = {};
+
+        for (const [name, value] of rawHeaders) {
+            const key = name.toLowerCase();
+            headers[key] = key in headers ? `${headers[key]}, ${value}` : value;
+        }
+
+        return headers;
+    }
+
     /**
      * Get HTTP status text
      */
@@ -485,28 +2017,89 @@ export class CurlImpersonate {
     }
 
     /**
-     * Parse curl error with comprehensive CURL error code handling
+     * Turn a failed curl run into the error class for its cause, carrying the request it was
+     * making and whatever response had arrived before it failed
      */
-    private parseError(error: Error): CurlError {
+    private parseError(error: Error, context: ErrorContext = {}): CurlTransportError {
+        const failed = error as Error & { curlCode?: number; stderr?: string; stdout?: string; output?: Buffer };
         // Try to extract CURL error code from the error message
-        const curlCode = this.extractCurlErrorCode(error.message);
+        const curlCode = failed.curlCode !== undefined && failed.curlCode in CURL_ERROR_CODES
+            ? failed.curlCode
+            : this.extractCurlErrorCode(error.message);
         const errorInfo = curlCode !== null ? CURL_ERROR_CODES[curlCode] : null;
+        const response = failed.output && context.url ? this.parsePartialResponse(failed.output, context.url, context.options) : undefined;
+        const proxied = !!context.url && !!this.resolveProxy(context.url, context.options || {});
+        const proxyFailed = this.isProxyFailure(curlCode, failed.stderr || '', proxied);
 
-        // Determine if this is a proxy-related error
-        const isProxyError = this.isProxyRelatedError(error.message, curlCode);
-
-        // Determine if this is a retryable error
-        const isRetryable = errorInfo ? errorInfo.retryable : this.isRetryableError(error.message);
-
-        return {
+        const failure: CurlFailure = {
             code: errorInfo ? errorInfo.name : 'CURL_ERROR',
-            message: errorInfo ? errorInfo.description : error.message,
-            details: error.stack,
             curlCode: curlCode ?? undefined,
             curlCodeName: errorInfo ? errorInfo.name : undefined,
-            proxyFailed: isProxyError,
-            retryable: isRetryable
+            proxyFailed,
+            retryable: errorInfo ? errorInfo.retryable : this.isRetryableError(error.message),
+            details: error.stack,
+            url: context.url,
+            fingerprint: context.fingerprint,
+            args: context.args,
+            stderr: failed.stderr,
+            stdout: failed.stdout,
+            timings: response?.timings,
+            response
         };
+        // Keep curl's own line, which says which host, proxy or file failed
+        const errorLine = this.getCurlErrorLine(failed.stderr || '');
+        let message = errorInfo ? errorInfo.description : error.message;
+        if (errorInfo && errorLine) {
+            message += ` (${errorLine})`;
+        }
+
+        if (curlCode === 90) {
+            return new CertificatePinError(message, failure);
+        }
+        if (curlCode === 28) {
+            return new CurlTimeoutError(message, failure);
+        }
+        if (proxyFailed) {
+            return new CurlProxyError(message, failure);
+        }
+        if (curlCode !== null && TLS_ERROR_CODES.includes(curlCode)) {
+            return new CurlTlsError(message, failure);
+        }
+        return new CurlTransportError(message, failure);
+    }
+
+    /**
+     * Whether the proxy, rather than the target, failed: proxy resolution and handshake errors
+     * always, and connection or tunnel errors when the request went through a proxy
+     */
+    private isProxyFailure(curlCode: number | null, stderr: string, proxied: boolean): boolean {
+        if (curlCode === 5 || curlCode === 97) {
+            return true;
+        }
+        if (!proxied) {
+            return false;
+        }
+        // Only curl's own error line; the verbose trace mentions the proxy on every proxied request
+        return curlCode === 7 || /proxy|CONNECT/i.test(this.getCurlErrorLine(stderr));
+    }
+
+    /**
+     * The last `curl: (N) ...` line of stderr, curl's own error message
+     */
+    private getCurlErrorLine(stderr: string): string {
+        return stderr.split('\n').filter(line => /^curl: \(\d+\)/.test(line)).pop()?.trim() || '';
+    }
+
+    /**
+     * The response as far as it arrived before curl failed, when at least its headers did
+     */
+    private parsePartialResponse(output: Buffer, url: string, options: RequestOptions = {}): HttpResponse | undefined {
+        try {
+            const response = this.parseResponse(output, url, 0, options);
+            return response.statusCode > 0 ? response : undefined;
+        } catch {
+            return undefined;
+        }
     }
 
     /**
@@ -536,32 +2129,6 @@ export class CurlImpersonate {
         return null;
     }
 
-    /**
-     * Check if error is proxy-related
-     */
-    private isProxyRelatedError(message: string, curlCode: number | null): boolean {
-        // Check by CURL error code
-        if (curlCode !== null) {
-            const proxyErrorCodes = [5, 7, 28, 97]; // CURLE_COULDNT_RESOLVE_PROXY, CURLE_COULDNT_CONNECT, CURLE_OPERATION_TIMEDOUT, CURLE_PROXY
-            if (proxyErrorCodes.includes(curlCode)) {
-                return true;
-            }
-        }
-
-        // Check by error message keywords
-        const proxyKeywords = [
-            'proxy', 'PROXY', 'Proxy',
-            'couldn\'t resolve proxy',
-            'failed to connect',
-            'connection refused',
-            'timeout',
-            'proxy handshake',
-            'proxy authentication'
-        ];
-
-        return proxyKeywords.some(keyword => message.toLowerCase().includes(keyword.toLowerCase()));
-    }
-
     /**
      * Extract request headers from stderr (verbose curl output)
      */
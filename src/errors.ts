@@ -0,0 +1,191 @@
+import { CURL_ERROR_CODES, CurlError, HttpResponse, ResponseTimings } from './types';
+
+// Thrown when a request is cancelled through its AbortSignal; the curl process is killed
+export class AbortError extends Error {
+    constructor(
+        message: string = 'The request was aborted',
+        public reason?: any
+    ) {
+        super(message);
+        this.name = 'AbortError';
+    }
+}
+
+// Thrown when a request can't get a curl process slot from the scheduler
+export class SchedulerError extends Error {
+    constructor(
+        message: string,
+        public code: 'QUEUE_FULL' | 'QUEUE_TIMEOUT',
+        public retryable: boolean = true
+    ) {
+        super(message);
+        this.name = 'SchedulerError';
+    }
+}
+
+// Thrown when the curl-impersonate binary can't be found or run, or lacks an option a fingerprint needs
+export class CurlBinaryError extends Error {
+    constructor(
+        message: string,
+        public code: 'BINARY_NOT_FOUND' | 'BINARY_NOT_EXECUTABLE' | 'PROBE_FAILED' | 'UNSUPPORTED_OPTION',
+        public unsupportedOptions: string[] = []
+    ) {
+        super(message);
+        this.name = 'CurlBinaryError';
+    }
+}
+
+// What is known about a curl run that failed: its curl error and the request it was making
+export interface CurlFailure {
+    code: string; // curl error name, e.g. 'CURLE_OPERATION_TIMEDOUT', or 'CURL_ERROR' when unknown
+    curlCode?: number;
+    curlCodeName?: string;
+    retryable: boolean;
+    proxyFailed: boolean; // The proxy, not the target, failed; always false for direct requests
+    details?: string; // Stack of the underlying error
+    url?: string;
+    fingerprint?: string; // Name of the fingerprint used, e.g. 'Chrome 136 macOS'
+    args?: string[]; // The command line, with config expanded and secrets redacted
+    stderr?: string; // curl's verbose output and error message, redacted
+    stdout?: string;
+    timings?: ResponseTimings; // Phase timings up to the failure, when curl reported them
+    response?: HttpResponse; // Status, headers and body received before the failure
+}
+
+// Thrown when curl fails to complete a request; subclasses narrow down the cause
+export class CurlTransportError extends Error implements CurlError {
+    code: string;
+    curlCode?: number;
+    curlCodeName?: string;
+    retryable: boolean;
+    proxyFailed: boolean;
+    details?: string;
+    url?: string;
+    fingerprint?: string;
+    args: string[];
+    stderr?: string;
+    stdout?: string;
+    timings?: ResponseTimings;
+    response?: HttpResponse;
+
+    constructor(message: string, failure: CurlFailure) {
+        super(message);
+        this.name = 'CurlTransportError';
+        this.code = failure.code;
+        this.curlCode = failure.curlCode;
+        this.curlCodeName = failure.curlCodeName;
+        this.retryable = failure.retryable;
+        this.proxyFailed = failure.proxyFailed;
+        this.details = failure.details;
+        this.url = failure.url;
+        this.fingerprint = failure.fingerprint;
+        this.args = failure.args || [];
+        this.stderr = failure.stderr;
+        this.stdout = failure.stdout;
+        this.timings = failure.timings;
+        this.response = failure.response;
+    }
+}
+
+// Thrown when a connect, stall or total timeout ends the request (CURLE_OPERATION_TIMEDOUT)
+export class CurlTimeoutError extends CurlTransportError {
+    constructor(message: string, failure: CurlFailure) {
+        super(message, failure);
+        this.name = 'CurlTimeoutError';
+    }
+}
+
+// Thrown when the proxy can't be resolved, reached or tunnelled through
+export class CurlProxyError extends CurlTransportError {
+    constructor(message: string, failure: CurlFailure) {
+        super(message, failure);
+        this.name = 'CurlProxyError';
+    }
+}
+
+// Thrown when the TLS handshake or certificate verification fails
+export class CurlTlsError extends CurlTransportError {
+    constructor(message: string, failure: CurlFailure) {
+        super(message, failure);
+        this.name = 'CurlTlsError';
+    }
+}
+
+// Thrown when the server's public key matches none of the pinned ones (CURLE_SSL_PINNEDPUBKEYNOTMATCH)
+export class CertificatePinError extends CurlTlsError {
+    constructor(
+        message: string = CURL_ERROR_CODES[90].description,
+        failure: Partial<CurlFailure> = {}
+    ) {
+        super(message, {
+            ...failure,
+            code: 'CURLE_SSL_PINNEDPUBKEYNOTMATCH',
+            curlCode: 90,
+            curlCodeName: 'CURLE_SSL_PINNEDPUBKEYNOTMATCH',
+            retryable: false,
+            proxyFailed: false
+        });
+        this.name = 'CertificatePinError';
+    }
+}
+
+// Statuses worth retrying: the server may answer differently later
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+// Thrown for a complete response whose status the caller doesn't accept
+export class HttpStatusError extends Error {
+    statusCode: number;
+    url: string;
+    retryable: boolean;
+
+    constructor(
+        public response: HttpResponse,
+        public fingerprint?: string,
+        message: string = `Request failed with status ${response.statusCode} ${response.statusText}`.trim()
+    ) {
+        super(message);
+        this.name = 'HttpStatusError';
+        this.statusCode = response.statusCode;
+        this.url = response.url;
+        this.retryable = RETRYABLE_STATUSES.includes(response.statusCode);
+    }
+}
+
+// Thrown when validateResponse rejects a response, e.g. a login wall served with status 200
+export class ResponseValidationError extends Error {
+    statusCode: number;
+    url: string;
+    retryable = true;
+
+    constructor(
+        public response: HttpResponse,
+        public reason: string,
+        public fingerprint?: string
+    ) {
+        super(`Response from ${response.url} failed validation: ${reason}`);
+        this.name = 'ResponseValidationError';
+        this.statusCode = response.statusCode;
+        this.url = response.url;
+    }
+}
+
+/**
+ * Throw an AbortError if the signal has already fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw createAbortError(signal);
+    }
+}
+
+/**
+ * Create the AbortError for a fired signal, keeping the reason it was aborted with
+ */
+export function createAbortError(signal: AbortSignal): AbortError {
+    const reason = signal.reason;
+    // abort() without a reason fills in a generic DOMException, which adds nothing to the message
+    const detail = reason?.name === 'AbortError' ? '' :
+        reason instanceof Error ? reason.message :
+            reason !== undefined ? String(reason) : '';
+    return new AbortError(detail ? `The request was aborted: ${detail}` : 'The request was aborted', reason);
+}
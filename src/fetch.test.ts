@@ -0,0 +1,104 @@
+import { createImpersonatedFetch } from './fetch';
+import { CookieJar } from './cookie-jar';
+import { AbortError } from './errors';
+import { MockTransport } from './mock-transport';
+import { ProcessScheduler } from './process-scheduler';
+
+describe('createImpersonatedFetch', () => {
+    let transport: MockTransport;
+    let fetchImpl: ReturnType<typeof createImpersonatedFetch>;
+
+    beforeEach(() => {
+        transport = new MockTransport();
+        fetchImpl = createImpersonatedFetch({ transport, scheduler: new ProcessScheduler(), fingerprint: 'chrome131-android' });
+    });
+
+    it('should return a spec-shaped Response', async () => {
+        transport
+            .redirect('https://example.com/old', '/api')
+            .on('https://example.com/api', {
+                status: 201,
+                statusText: 'Created',
+                headers: [['Content-Type', 'application/json'], ['Set-Cookie', 'a=1'], ['Set-Cookie', 'b=2']],
+                body: '{"ok":true}'
+            });
+
+        const response = await fetchImpl('https://example.com/old');
+
+        expect(response).toBeInstanceOf(Response);
+        expect(response.status).toBe(201);
+        expect(response.ok).toBe(true);
+        expect(response.statusText).toBe('Created');
+        expect(response.url).toBe('https://example.com/api');
+        expect(response.redirected).toBe(true);
+        expect(response.headers.get('content-type')).toBe('application/json');
+        expect(response.headers.getSetCookie()).toEqual(['a=1', 'b=2']);
+        expect(await response.json()).toEqual({ ok: true });
+    });
+
+    it('should accept Request, Headers and URLSearchParams', async () => {
+        transport.on('https://example.com/form', {}, { method: 'PUT' });
+
+        await fetchImpl(new Request('https://example.com/form', {
+            method: 'PUT',
+            headers: new Headers({ 'X-Token': 'abc' }),
+            body: new URLSearchParams({ q: 'a b' })
+        }));
+
+        expect(transport.requests[0]).toMatchObject({
+            method: 'PUT',
+            headers: { 'x-token': 'abc', 'content-type': 'application/x-www-form-urlencoded;charset=UTF-8' }
+        });
+        expect(transport.requests[0].headers['user-agent']).toContain('Android');
+        expect(transport.requests[0].body.toString()).toBe('q=a+b');
+    });
+
+    it('should encode FormData with the browser boundary', async () => {
+        transport.on('https://example.com/upload', {}, { method: 'POST' });
+        const form = new FormData();
+        form.append('name', 'x');
+        form.append('file', new Blob(['abc'], { type: 'text/plain' }), 'a.txt');
+
+        await fetchImpl('https://example.com/upload', { method: 'POST', body: form });
+
+        const { headers, body } = transport.requests[0];
+        expect(headers['content-type']).toMatch(/^multipart\/form-data; boundary=----WebKitFormBoundary/);
+        expect(body.toString()).toContain('filename="a.txt"\r\nContent-Type: text/plain\r\n\r\nabc');
+    });
+
+    it('should encode FormData of a Request object with the browser boundary', async () => {
+        transport.on('https://example.com/upload', {}, { method: 'POST' });
+        const form = new FormData();
+        form.append('name', 'x');
+        form.append('file', new Blob(['abc'], { type: 'text/plain' }), 'a.txt');
+
+        await fetchImpl(new Request('https://example.com/upload', { method: 'POST', body: form }));
+
+        const { headers, body } = transport.requests[0];
+        expect(headers['content-type']).toMatch(/^multipart\/form-data; boundary=----WebKitFormBoundary/);
+        expect(body.toString()).toContain('name="name"\r\n\r\nx\r\n');
+        expect(body.toString()).toContain('filename="a.txt"\r\nContent-Type: text/plain\r\n\r\nabc');
+        expect(body.toString()).not.toContain('formdata-undici');
+    });
+
+    it('should honour redirect modes, sessions and errors like fetch', async () => {
+        transport.redirect('https://example.com/moved', '/new').on('https://example.com/new', { headers: { 'set-cookie': 'sid=1' } });
+        const cookieJar = new CookieJar();
+        const sessionFetch = createImpersonatedFetch({ transport, scheduler: new ProcessScheduler(), session: { cookieJar } });
+
+        const manual = await fetchImpl('https://example.com/moved', { redirect: 'manual' });
+        expect(manual.status).toBe(302);
+        expect(manual.headers.get('location')).toBe('/new');
+        await expect(fetchImpl('https://example.com/moved', { redirect: 'error' })).rejects.toThrow(TypeError);
+
+        await sessionFetch('https://example.com/new');
+        expect(cookieJar.getCookieHeader('https://example.com/')).toBe('sid=1');
+
+        await expect(fetchImpl('https://down.example.com/')).rejects.toMatchObject({
+            name: 'TypeError',
+            message: 'fetch failed',
+            cause: expect.objectContaining({ curlCode: 7 })
+        });
+        await expect(fetchImpl('https://example.com/new', { signal: AbortSignal.abort() })).rejects.toBeInstanceOf(AbortError);
+    });
+});
@@ -0,0 +1,116 @@
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { CurlImpersonate } from './curl-impersonate';
+import { AbortError } from './errors';
+import { FingerprintConfig } from './fingerprint-config';
+import { CookieJar } from './cookie-jar';
+import { AltSvcCache } from './alt-svc';
+import { CurlImpersonateConfig, FormDataValue, ProxyConfig, RequestOptions } from './types';
+
+// State shared by the requests of one fetch function; a CloudflareScraper session fits
+export interface FetchSession {
+    fingerprint?: FingerprintConfig;
+    proxy?: ProxyConfig;
+    cookieJar?: CookieJar;
+    altSvc?: AltSvcCache;
+}
+
+export interface ImpersonatedFetchOptions extends CurlImpersonateConfig {
+    client?: CurlImpersonate; // Existing instance to run requests on; the config options are ignored then
+    fingerprint?: string; // Fingerprint name; defaults to the session's, then the library default
+    proxy?: ProxyConfig | string; // Defaults to the session's
+    session?: FetchSession;
+}
+
+export type ImpersonatedFetch = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+
+// Statuses whose responses never have a body
+const NULL_BODY_STATUSES = [101, 103, 204, 205, 304];
+
+/**
+ * Create a fetch() that sends its requests through curl-impersonate. Inputs are normalized
+ * with the platform's Request, so Headers, URLSearchParams, Blob and stream bodies and
+ * AbortSignal behave as with the built-in fetch; FormData is encoded with the fingerprint's
+ * multipart boundary instead of Node's. Network failures reject with TypeError('fetch failed'),
+ * the curl error as its cause, and cancellation with an AbortError.
+ */
+export function createImpersonatedFetch(options: ImpersonatedFetchOptions = {}): ImpersonatedFetch {
+    const { client, fingerprint, proxy, session, ...config } = options;
+    const curl = client ?? new CurlImpersonate(config);
+    // getFingerprintConfig also accepts a fingerprint's display name, which survives session restores
+    const fingerprintName = fingerprint ?? session?.fingerprint?.name;
+
+    return async (input, init = {}) => {
+        const request = new Request(input, init);
+        let formData = init.body instanceof FormData ? init.body : undefined;
+        if (!formData && input instanceof Request && init.body === undefined && /^multipart\/form-data;/i.test(request.headers.get('content-type') ?? '')) {
+            // A Request built with FormData carries it already serialized with Node's boundary; parse it back
+            formData = await request.clone().formData();
+        }
+        if (formData) {
+            // Node's boundary would give the client away; buildRequestBody uses the browser's
+            request.headers.delete('content-type');
+        }
+
+        const requestOptions: RequestOptions = {
+            method: request.method as RequestOptions['method'],
+            headers: Object.fromEntries(request.headers),
+            followRedirects: request.redirect === 'follow',
+            proxy: proxy ?? session?.proxy,
+            cookieJar: session?.cookieJar,
+            altSvc: session?.altSvc,
+            signal: request.signal,
+            responseType: 'buffer'
+        };
+        if (formData) {
+            requestOptions.formData = await toFormDataOptions(formData);
+        } else if (request.body && init.body instanceof ReadableStream) {
+            requestOptions.body = Readable.fromWeb(request.body as NodeReadableStream);
+        } else if (request.body) {
+            requestOptions.body = Buffer.from(await request.arrayBuffer());
+        }
+
+        let response;
+        try {
+            response = await curl.request(request.url, requestOptions, fingerprintName);
+        } catch (error) {
+            if (error instanceof AbortError) {
+                throw error;
+            }
+            throw Object.assign(new TypeError('fetch failed'), { cause: error });
+        }
+
+        if (request.redirect === 'error' && response.statusCode >= 300 && response.statusCode < 400 && response.headers['location']) {
+            throw Object.assign(new TypeError('fetch failed'), { cause: new Error('unexpected redirect') });
+        }
+
+        const nullBody = request.method === 'HEAD' || NULL_BODY_STATUSES.includes(response.statusCode);
+        const result = new Response(nullBody ? null : response.rawBody ?? response.body, {
+            status: response.statusCode,
+            statusText: response.statusText,
+            headers: response.rawHeaders ?? response.headers
+        });
+        // Set by the platform's fetch only; a constructed Response reports '' and false
+        Object.defineProperties(result, {
+            url: { value: response.url },
+            redirected: { value: !!response.redirects?.length }
+        });
+        return result;
+    };
+}
+
+/**
+ * FormData entries as RequestOptions.formData, keeping repeated names and file metadata
+ */
+async function toFormDataOptions(formData: FormData): Promise<NonNullable<RequestOptions['formData']>> {
+    const fields: Record<string, FormDataValue[]> = {};
+    for (const [name, value] of formData) {
+        const field: FormDataValue = typeof value === 'string' ? value : {
+            value: Buffer.from(await value.arrayBuffer()),
+            filename: value.name,
+            contentType: value.type || undefined
+        };
+        (fields[name] ||= []).push(field);
+    }
+    return fields;
+}
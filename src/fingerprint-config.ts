@@ -1,9 +1,20 @@
+import type { HttpVersion } from './types';
+
+// Request header names in the order the browser sends them. Names the request may or may not
+// carry (Cookie, Referer, Content-Type, Origin, ...) mark where they go when it does.
+export interface HeaderOrder {
+    http1?: string[]; // Over HTTP/1.1, in the browser's casing
+    http2?: string[]; // Over HTTP/2 and HTTP/3
+}
+
 export interface FingerprintConfig {
     name: string;
     browser: 'chrome' | 'firefox' | 'safari' | 'edge';
     version: string;
     platform: 'desktop' | 'mobile';
     os: 'windows' | 'macos' | 'linux' | 'android' | 'ios';
+    httpVersion?: HttpVersion; // Default 'auto'
+    headerOrder?: HeaderOrder; // Default: the browser's order (header-order.ts)
 
     // Headers configuration
     headers: {
@@ -0,0 +1,37 @@
+import { FINGERPRINT_CONFIGS } from './fingerprint-config';
+import { formatRequestHeaders, getHeaderOrder } from './header-order';
+
+describe('Header Order', () => {
+    const chrome = FINGERPRINT_CONFIGS['chrome136-macos'];
+    const names = (headers: Array<[string, string]>) => headers.map(([name]) => name);
+
+    it('should merge request headers into their slots', () => {
+        const headers = formatRequestHeaders(chrome, '2', [
+            ['X-Custom', 'a'],
+            ['Cookie', 'id=1'],
+            ['referer', 'https://example.com/'],
+            ['User-Agent', 'ua'],
+            ['Content-Type', 'text/plain'],
+            ['Sec-Ch-Ua', 'brands'],
+            ['Origin', 'https://example.com']
+        ]);
+
+        expect(names(headers)).toEqual(['sec-ch-ua', 'origin', 'content-type', 'user-agent', 'referer', 'cookie', 'x-custom']);
+    });
+
+    it('should use browser casing and add Connection over HTTP/1.1', () => {
+        const headers = formatRequestHeaders(chrome, '1.1', [['x-custom', 'a'], ['user-agent', 'ua'], ['Sec-Ch-Ua', 'brands']]);
+
+        expect(headers).toEqual([['Connection', 'keep-alive'], ['sec-ch-ua', 'brands'], ['User-Agent', 'ua'], ['x-custom', 'a']]);
+        expect(names(formatRequestHeaders(chrome, '1.1', [['connection', 'close']]))).toEqual(['Connection']);
+    });
+
+    it('should prefer the fingerprint template over the browser default', () => {
+        const fingerprint = { ...chrome, headerOrder: { http2: ['cookie', 'user-agent'] } };
+
+        expect(getHeaderOrder(fingerprint, '3')).toEqual(['cookie', 'user-agent']);
+        expect(getHeaderOrder(fingerprint, '1.1')).toBe(getHeaderOrder(chrome, '1.1'));
+        expect(names(formatRequestHeaders(fingerprint, 'auto', [['User-Agent', 'ua'], ['Accept', '*/*'], ['Cookie', 'id=1']])))
+            .toEqual(['cookie', 'user-agent', 'accept']);
+    });
+});
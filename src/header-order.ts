@@ -0,0 +1,90 @@
+import { FingerprintConfig, HeaderOrder } from './fingerprint-config';
+import { HttpVersion } from './types';
+
+// Chrome and Edge send the same headers in the same order
+const CHROMIUM_HEADER_ORDER: Required<HeaderOrder> = {
+    http1: [
+        'Host', 'Connection', 'Content-Length', 'Cache-Control', 'sec-ch-ua', 'sec-ch-ua-mobile', 'sec-ch-ua-platform',
+        'Upgrade-Insecure-Requests', 'Origin', 'Content-Type', 'User-Agent', 'Accept', 'Sec-Fetch-Site', 'Sec-Fetch-Mode',
+        'Sec-Fetch-User', 'Sec-Fetch-Dest', 'Referer', 'Accept-Encoding', 'Accept-Language', 'Cookie', 'Priority'
+    ],
+    http2: [
+        'content-length', 'cache-control', 'sec-ch-ua', 'sec-ch-ua-mobile', 'sec-ch-ua-platform', 'upgrade-insecure-requests',
+        'origin', 'content-type', 'user-agent', 'accept', 'sec-fetch-site', 'sec-fetch-mode', 'sec-fetch-user',
+        'sec-fetch-dest', 'referer', 'accept-encoding', 'accept-language', 'cookie', 'priority'
+    ]
+};
+
+// Request header names in the order each browser sends them, over HTTP/1.1 in its casing
+const DEFAULT_HEADER_ORDER: Record<FingerprintConfig['browser'], Required<HeaderOrder>> = {
+    chrome: CHROMIUM_HEADER_ORDER,
+    edge: CHROMIUM_HEADER_ORDER,
+    firefox: {
+        http1: [
+            'Host', 'User-Agent', 'Accept', 'Accept-Language', 'Accept-Encoding', 'Content-Type', 'Content-Length', 'Origin',
+            'Connection', 'Referer', 'Cookie', 'Upgrade-Insecure-Requests', 'Sec-Fetch-Dest', 'Sec-Fetch-Mode',
+            'Sec-Fetch-Site', 'Sec-Fetch-User', 'Priority', 'TE'
+        ],
+        http2: [
+            'user-agent', 'accept', 'accept-language', 'accept-encoding', 'content-type', 'content-length', 'origin',
+            'referer', 'cookie', 'upgrade-insecure-requests', 'sec-fetch-dest', 'sec-fetch-mode', 'sec-fetch-site',
+            'sec-fetch-user', 'priority', 'te'
+        ]
+    },
+    safari: {
+        http1: [
+            'Host', 'Content-Type', 'Origin', 'Accept', 'Sec-Fetch-Site', 'Cookie', 'Sec-Fetch-Dest', 'Content-Length',
+            'Accept-Language', 'Sec-Fetch-Mode', 'User-Agent', 'Referer', 'Accept-Encoding', 'Connection', 'Priority'
+        ],
+        http2: [
+            'content-type', 'origin', 'accept', 'sec-fetch-site', 'cookie', 'sec-fetch-dest', 'content-length',
+            'accept-language', 'sec-fetch-mode', 'user-agent', 'referer', 'accept-encoding', 'priority'
+        ]
+    }
+};
+
+/**
+ * The header template a fingerprint sends over an HTTP version: its own if it declares one, else its
+ * browser's. HTTP/3 and 'auto' (which offers HTTP/2 first) use the HTTP/2 template.
+ */
+export function getHeaderOrder(fingerprint: FingerprintConfig, httpVersion: HttpVersion): string[] {
+    const defaults = DEFAULT_HEADER_ORDER[fingerprint.browser] || DEFAULT_HEADER_ORDER.chrome;
+    return httpVersion === '1.1'
+        ? fingerprint.headerOrder?.http1 ?? defaults.http1
+        : fingerprint.headerOrder?.http2 ?? defaults.http2;
+}
+
+/**
+ * Put request headers in the fingerprint's order for the HTTP version. Every header the template
+ * names, whether the fingerprint's, the caller's or a Cookie, Referer, Content-Type or Origin the
+ * request adds, goes in its slot; the rest keep their relative order after them. Over HTTP/1.1
+ * known names take the template's casing and Connection: keep-alive is added, which browsers
+ * send and curl doesn't; over HTTP/2 and HTTP/3 all names are lowercased.
+ */
+export function formatRequestHeaders(
+    fingerprint: FingerprintConfig,
+    httpVersion: HttpVersion,
+    headers: Array<[string, string]>
+): Array<[string, string]> {
+    const order = getHeaderOrder(fingerprint, httpVersion);
+    const rank = new Map<string, number>();
+    order.forEach((name, index) => {
+        if (!rank.has(name.toLowerCase())) {
+            rank.set(name.toLowerCase(), index);
+        }
+    });
+
+    const http1 = httpVersion === '1.1';
+    const withConnection: Array<[string, string]> = !http1 || headers.some(([name]) => name.toLowerCase() === 'connection')
+        ? headers
+        : [...headers, ['Connection', 'keep-alive']];
+
+    const known = withConnection
+        .filter(([name]) => rank.has(name.toLowerCase()))
+        .sort(([a], [b]) => rank.get(a.toLowerCase())! - rank.get(b.toLowerCase())!)
+        .map(([name, value]): [string, string] => [order[rank.get(name.toLowerCase())!], value]);
+    const unknown = withConnection.filter(([name]) => !rank.has(name.toLowerCase()));
+
+    const ordered = [...known, ...unknown];
+    return http1 ? ordered : ordered.map(([name, value]): [string, string] => [name.toLowerCase(), value]);
+}
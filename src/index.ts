@@ -1,12 +1,65 @@
 // Export the curl-impersonate wrapper (for direct use)
 export { CurlImpersonate } from './curl-impersonate';
 
+// Export error classes
+export {
+    AbortError,
+    SchedulerError,
+    CurlBinaryError,
+    CurlTransportError,
+    CurlTimeoutError,
+    CurlProxyError,
+    CurlTlsError,
+    CertificatePinError,
+    HttpStatusError,
+    ResponseValidationError
+} from './errors';
+export type { CurlFailure } from './errors';
+
+// Export binary discovery
+export { resolveBinaryPath, probeBinary, parseCapabilities, BINARY_PATH_ENV } from './binary-resolver';
+export type { BinaryLocation } from './binary-resolver';
+
+// Export the process scheduler shared by all instances
+export { ProcessScheduler, processScheduler } from './process-scheduler';
+export type { ProcessSchedulerOptions, ProcessSchedulerMetrics, AcquireOptions } from './process-scheduler';
+
+// Export the transports that run curl (the binary, or an in-memory mock for tests)
+export { CliTransport } from './transport';
+export type { Transport, TransportProcess } from './transport';
+export { MockTransport } from './mock-transport';
+export type { MockResponse, MockRequest, MockHandler, MockUrlMatcher, MockRouteOptions } from './mock-transport';
+
+// Export the Alt-Svc cache used to upgrade to HTTP/3
+export { AltSvcCache, parseAltSvc } from './alt-svc';
+export type { AltSvcEntry } from './alt-svc';
+
+// Export clients with defaults and interceptors (CurlImpersonate.create)
+export { CurlClient } from './client';
+export type { ClientDefaults, ClientRequestOptions, Interceptor, InterceptorContext, QueryParams } from './client';
+
+// Export the fetch()-compatible API
+export { createImpersonatedFetch } from './fetch';
+export type { ImpersonatedFetch, ImpersonatedFetchOptions, FetchSession } from './fetch';
+
+// Export charset detection used to decode response bodies
+export { decodeBody, detectCharset, normalizeCharset } from './charset';
+export type { DecodedBody } from './charset';
+
+// Export proxy parsing and environment proxy rules
+export { parseProxy, formatProxyUrl, getProxyFromEnv, matchesNoProxy } from './proxy';
+
+// Export the cookie jar
+export { CookieJar } from './cookie-jar';
+export type { Cookie } from './cookie-jar';
+
 // Export the Cloudflare wrapper
 export { CloudflareScraper, CloudflareError, ProxyError } from './cloudflare-scraper';
 export type {
     SessionConfig,
     CloudflareConfig,
     ProxyRotationConfig,
+    LocalAddressRotationConfig,
     ScrapingSession,
     HtmlParseOptions,
     HtmlElement,
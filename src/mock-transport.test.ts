@@ -0,0 +1,90 @@
+import { CurlImpersonate } from './curl-impersonate';
+import { CloudflareScraper } from './cloudflare-scraper';
+import { MockTransport } from './mock-transport';
+import { ProcessScheduler } from './process-scheduler';
+
+describe('MockTransport', () => {
+    let transport: MockTransport;
+    let curl: CurlImpersonate;
+
+    beforeEach(() => {
+        transport = new MockTransport();
+        curl = new CurlImpersonate({ transport, scheduler: new ProcessScheduler() });
+    });
+
+    it('should answer with canned responses and record what was sent', async () => {
+        transport.on('https://example.com/api', {
+            headers: [['Content-Type', 'application/json'], ['Set-Cookie', 'a=1'], ['Set-Cookie', 'b=2']],
+            body: '{"ok":true}'
+        }, { method: 'POST' });
+
+        const response = await curl.requestJson('https://example.com/api', {
+            method: 'POST',
+            json: { q: 1 },
+            cookies: { session: 'abc' }
+        });
+
+        expect(response.statusCode).toBe(200);
+        expect(response.data).toEqual({ ok: true });
+        expect(response.rawHeaders?.filter(([name]) => name === 'Set-Cookie')).toHaveLength(2);
+        expect(transport.requests[0]).toMatchObject({
+            method: 'POST',
+            url: 'https://example.com/api',
+            headers: { cookie: 'session=abc', 'content-type': 'application/json' }
+        });
+        expect(transport.requests[0].body.toString()).toBe('{"q":1}');
+        expect(transport.requests[0].args).toContain('--ciphers');
+    });
+
+    it('should follow redirects like curl does', async () => {
+        transport
+            .redirect('https://example.com/old', '/new', 301)
+            .on('https://example.com/new', { body: 'moved' });
+
+        const response = await curl.request('https://example.com/old');
+
+        expect(response.body).toBe('moved');
+        expect(response.url).toBe('https://example.com/new');
+        expect(response.redirects).toEqual([expect.objectContaining({ url: 'https://example.com/old', statusCode: 301 })]);
+    });
+
+    it('should fail with curl error codes, including timeouts from delays', async () => {
+        transport
+            .fail('https://down.example.com/', 7)
+            .on('https://slow.example.com/', { delayMs: 5000 });
+
+        await expect(curl.request('https://down.example.com/'))
+            .rejects.toMatchObject({ curlCode: 7, code: 'CURLE_COULDNT_CONNECT' });
+        await expect(curl.request('https://slow.example.com/', { totalTimeoutMs: 50 }))
+            .rejects.toMatchObject({ curlCode: 28 });
+        await expect(curl.request('https://unknown.example.com/'))
+            .rejects.toMatchObject({ curlCode: 7 });
+    });
+
+    it('should serve batched and streamed requests', async () => {
+        transport.on(/^https:\/\/example\.com\/item\/\d+$/, request => ({ body: request.url.split('/').pop() }));
+
+        const batching = new CurlImpersonate({ transport, scheduler: new ProcessScheduler(), batching: { enabled: true } });
+
+        const responses = await Promise.all([1, 2, 3].map(id => batching.request(`https://example.com/item/${id}`)));
+        expect(responses.map(response => response.body)).toEqual(['1', '2', '3']);
+        expect(responses.map(response => response.connection?.connectionsOpened)).toEqual([1, 0, 0]);
+
+        const stream = await curl.stream('https://example.com/item/4');
+        const chunks: Buffer[] = [];
+        for await (const chunk of stream.body) {
+            chunks.push(chunk);
+        }
+        expect(Buffer.concat(chunks).toString()).toBe('4');
+    });
+
+    it('should let CloudflareScraper run offline', async () => {
+        transport.on('https://example.com/', { headers: { 'content-type': 'text/html' }, body: '<title>Hi</title>' });
+        const scraper = new CloudflareScraper({ transport });
+
+        const response = await scraper.request('https://example.com/');
+
+        expect(response.statusCode).toBe(200);
+        expect(response.body).toContain('Hi');
+    });
+});
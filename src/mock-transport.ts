@@ -0,0 +1,464 @@
+import { EventEmitter } from 'events';
+import { readFile, writeFile } from 'fs/promises';
+import { PassThrough } from 'stream';
+import { CurlConfigEntry, parseCurlConfig } from './curl-config';
+import { CURL_ERROR_CODES } from './types';
+import { Transport, TransportProcess } from './transport';
+
+export interface MockResponse {
+    status?: number; // Default 200
+    statusText?: string;
+    headers?: Record<string, string> | Array<[string, string]>;
+    body?: string | Buffer;
+    httpVersion?: '1.1' | '2' | '3'; // Default: what the request asked for, HTTP/2 unless --http1.1 or --http3
+    delayMs?: number; // Wait before answering; counts against the request's total timeout
+    curlError?: number; // Fail the transfer with this curl exit code instead of answering, or mid-body when status is set
+    curlErrorMessage?: string;
+}
+
+// A request as curl would have sent it
+export interface MockRequest {
+    method: string;
+    url: string;
+    headers: Record<string, string>; // Lowercase names
+    body: Buffer;
+    proxy?: string;
+    args: string[]; // The transfer's command line, for asserting on TLS or timeout options
+    config: CurlConfigEntry[]; // Its -K config entries, e.g. ['resolve', 'example.com:443:203.0.113.7']
+}
+
+export type MockHandler = MockResponse | ((request: MockRequest) => MockResponse | Promise<MockResponse>);
+
+export type MockUrlMatcher = string | RegExp | ((url: string) => boolean);
+
+export interface MockRouteOptions {
+    method?: string;
+    times?: number; // Answer this many requests, then leave later ones to other routes
+}
+
+interface MockRoute {
+    matcher: MockUrlMatcher;
+    method?: string;
+    handler: MockHandler;
+    remaining: number;
+}
+
+// What one transfer of a command line asks for
+interface MockTransferSpec {
+    args: string[];
+    method?: string;
+    include: boolean;
+    writeOut?: string;
+    outputPath?: string;
+    followRedirects: boolean;
+    maxRedirects: number;
+    maxTimeMs?: number;
+    httpVersion: '1.1' | '2' | '3';
+    configSource?: string;
+    readsBody: boolean;
+}
+
+// Options the mock reads whose value is the next argument; anything else is skipped
+const VALUE_OPTIONS = new Set(['-X', '-w', '-K', '-T', '-o', '--data-binary', '--max-redirs', '--max-time', '--parallel-max']);
+
+/**
+ * In-memory stand-in for the curl binary. Register responses per URL and pass it as
+ * `transport` to CurlImpersonate or CloudflareScraper to test scrapers without network access.
+ * Requests go through the same command line, config and output parsing as with real curl.
+ */
+export class MockTransport implements Transport {
+    readonly requests: MockRequest[] = [];
+    readonly features = ['HTTP2', 'HTTP3'];
+    private routes: MockRoute[] = [];
+
+    /**
+     * Answer requests for matching URLs; routes are tried in the order they were added
+     */
+    on(matcher: MockUrlMatcher, handler: MockHandler, options: MockRouteOptions = {}): this {
+        this.routes.push({
+            matcher,
+            method: options.method?.toUpperCase(),
+            handler,
+            remaining: options.times ?? Infinity
+        });
+        return this;
+    }
+
+    /**
+     * Redirect matching URLs to another location
+     */
+    redirect(matcher: MockUrlMatcher, location: string, status: number = 302, options: MockRouteOptions = {}): this {
+        return this.on(matcher, { status, headers: { location } }, options);
+    }
+
+    /**
+     * Fail matching requests the way curl does, e.g. 28 for a timeout or 7 for a refused connection
+     */
+    fail(matcher: MockUrlMatcher, curlCode: number, message?: string, options: MockRouteOptions = {}): this {
+        return this.on(matcher, { curlError: curlCode, curlErrorMessage: message }, options);
+    }
+
+    /**
+     * Forget all routes and recorded requests
+     */
+    reset(): void {
+        this.routes = [];
+        this.requests.length = 0;
+    }
+
+    spawn(args: string[]): TransportProcess {
+        return new MockProcess(args, request => this.respond(request));
+    }
+
+    private async respond(request: MockRequest): Promise<MockResponse> {
+        this.requests.push(request);
+
+        const route = this.routes.find(item =>
+            item.remaining > 0 &&
+            (!item.method || item.method === request.method) &&
+            matchesUrl(item.matcher, request.url));
+
+        if (!route) {
+            return {
+                curlError: 7,
+                curlErrorMessage: `MockTransport has no response for ${request.method} ${request.url}`
+            };
+        }
+
+        route.remaining--;
+        return typeof route.handler === 'function' ? route.handler(request) : route.handler;
+    }
+}
+
+/**
+ * A fake curl process: reads the command line and stdin like curl, asks the transport for
+ * each response and writes curl's output (headers, body, write-out, verbose lines)
+ */
+class MockProcess extends EventEmitter implements TransportProcess {
+    stdin = new PassThrough();
+    stdout = new PassThrough();
+    stderr = new PassThrough();
+    private killed = false;
+    private wakers = new Set<() => void>();
+
+    constructor(private args: string[], private respond: (request: MockRequest) => Promise<MockResponse>) {
+        super();
+
+        const input: Buffer[] = [];
+        this.stdin.on('data', (chunk: Buffer) => input.push(chunk));
+        this.stdin.on('end', () => {
+            this.run(Buffer.concat(input)).then(
+                code => this.exit(code, null),
+                error => {
+                    this.write(this.stderr, `curl: (2) ${error.message}\n`);
+                    this.exit(2, null);
+                }
+            );
+        });
+    }
+
+    kill(): boolean {
+        if (this.killed) {
+            return false;
+        }
+        this.killed = true;
+        this.wakers.forEach(wake => wake());
+        this.exit(null, 'SIGTERM');
+        return true;
+    }
+
+    private async run(input: Buffer): Promise<number> {
+        const transfers = this.parseArgs(this.args);
+        const configs = await Promise.all(transfers.map(spec => spec.configSource === '-'
+            ? input.toString('utf8')
+            : spec.configSource ? readFile(spec.configSource, 'utf8') : ''));
+
+        // Like curl, a parallel run fails with the error of a failed transfer, a serial one with the last transfer's
+        if (this.args.includes('--parallel')) {
+            const codes = await Promise.all(transfers.map((spec, index) => this.runTransfer(spec, index, input, configs[index])));
+            return codes.filter(code => code !== 0).pop() ?? 0;
+        }
+
+        let exitCode = 0;
+        for (let index = 0; index < transfers.length && !this.killed; index++) {
+            exitCode = await this.runTransfer(transfers[index], index, input, configs[index]);
+        }
+        return exitCode;
+    }
+
+    private async runTransfer(spec: MockTransferSpec, index: number, input: Buffer, config: string): Promise<number> {
+        const startTime = Date.now();
+        const entries = parseCurlConfig(config);
+
+        let url = entries.find(([name]) => name === 'url')?.[1] || '';
+        let body = spec.readsBody ? input : Buffer.alloc(0);
+        let method = spec.method || (spec.readsBody ? 'POST' : 'GET');
+        const headers: Record<string, string> = {};
+        for (const [name, value] of entries) {
+            const colonIndex = value.indexOf(':');
+            const headerValue = value.substring(colonIndex + 1).trim();
+            // "Name:" removes a header curl would add by itself
+            if (name === 'header' && colonIndex > 0 && headerValue) {
+                headers[value.substring(0, colonIndex).trim().toLowerCase()] = headerValue;
+            }
+        }
+        const proxy = entries.find(([name]) => name === 'proxy')?.[1];
+
+        const headerBlocks: Buffer[] = [];
+        let redirectCount = 0;
+        let failure: { code: number; message: string } | null = null;
+        let final: { response: MockResponse; status: number; body: Buffer } | null = null;
+
+        while (!failure && !final) {
+            // Like curl 8, log the header fields of HTTP/2 and HTTP/3 streams before the request
+            const stream = spec.httpVersion === '1.1' ? [] : Object.entries(headers)
+                .map(([name, value]) => `* [HTTP/${spec.httpVersion}] [${spec.httpVersion === '2' ? 1 : 0}] [${name}: ${value}]`);
+            this.trace(index, [
+                ...stream,
+                `> ${method} ${this.requestTarget(url)} HTTP/${spec.httpVersion}`,
+                ...Object.entries(headers).map(([name, value]) => `> ${name}: ${value}`),
+                '>'
+            ]);
+
+            const response = await this.respond({ method, url, headers: { ...headers }, body, proxy, args: spec.args, config: entries });
+
+            if (response.delayMs) {
+                const remaining = spec.maxTimeMs !== undefined ? spec.maxTimeMs - (Date.now() - startTime) : Infinity;
+                await this.sleep(Math.min(response.delayMs, Math.max(remaining, 0)));
+                if (response.delayMs > remaining) {
+                    failure = { code: 28, message: `Operation timed out after ${spec.maxTimeMs} milliseconds with 0 bytes received` };
+                    break;
+                }
+            }
+            if (this.killed) {
+                return 0;
+            }
+
+            if (response.curlError) {
+                failure = {
+                    code: response.curlError,
+                    message: response.curlErrorMessage || CURL_ERROR_CODES[response.curlError]?.description || 'Mock transfer failed'
+                };
+                // Like a transfer cut off mid-body: the head and the body so far are already out
+                if (response.status !== undefined) {
+                    headerBlocks.push(this.renderHead(response, response.status, spec.httpVersion));
+                    final = { response, status: response.status, body: toBuffer(response.body) };
+                }
+                break;
+            }
+
+            const status = response.status ?? 200;
+            headerBlocks.push(this.renderHead(response, status, spec.httpVersion));
+
+            const location = getHeader(response.headers, 'location');
+            if (spec.followRedirects && status >= 300 && status < 400 && location) {
+                if (redirectCount >= spec.maxRedirects) {
+                    failure = { code: 47, message: `Maximum (${spec.maxRedirects}) redirects followed` };
+                    break;
+                }
+                redirectCount++;
+                url = new URL(location, url).toString();
+                // Like curl: 303 turns anything but HEAD into GET, 301/302 only an implicit POST
+                if ((status === 303 && method !== 'HEAD') || ((status === 301 || status === 302) && method === 'POST' && !spec.method)) {
+                    method = 'GET';
+                    body = Buffer.alloc(0);
+                }
+                continue;
+            }
+
+            const responseBody = method === 'HEAD' ? Buffer.alloc(0) : toBuffer(response.body);
+            final = { response, status, body: responseBody };
+        }
+
+        const headerBytes = failure && !final ? Buffer.alloc(0) : Buffer.concat(headerBlocks);
+        const output = Buffer.concat([spec.include ? headerBytes : Buffer.alloc(0), final ? final.body : Buffer.alloc(0)]);
+        if (spec.outputPath) {
+            // curl only creates the file once there is something to write
+            if (output.length > 0) {
+                await writeFile(spec.outputPath, output);
+            }
+        } else {
+            this.write(this.stdout, output);
+        }
+        if (failure) {
+            this.write(this.stderr, `curl: (${failure.code}) ${failure.message}\n`);
+        }
+
+        if (spec.writeOut) {
+            const seconds = (Date.now() - startTime) / 1000;
+            const transferInfo: Record<string, any> = {
+                content_type: final ? getHeader(final.response.headers, 'content-type') ?? null : null,
+                errormsg: failure ? failure.message : null,
+                exitcode: failure ? failure.code : 0,
+                http_code: final?.status ?? 0,
+                http_version: final ? final.response.httpVersion ?? spec.httpVersion : '0',
+                method,
+                num_connects: index === 0 ? 1 : 0,
+                num_redirects: redirectCount,
+                remote_ip: '127.0.0.1',
+                remote_port: url.startsWith('https:') ? 443 : 80,
+                response_code: final?.status ?? 0,
+                size_download: final ? final.body.length : 0,
+                size_header: headerBytes.length,
+                time_namelookup: 0,
+                time_connect: 0,
+                time_appconnect: 0,
+                time_pretransfer: 0,
+                time_redirect: 0,
+                time_starttransfer: seconds,
+                time_total: seconds,
+                url_effective: url,
+                xfer_id: index
+            };
+            this.write(this.stdout, renderWriteOut(spec.writeOut, transferInfo));
+        }
+
+        return failure ? failure.code : 0;
+    }
+
+    /**
+     * Split argv at --next and read the options the mock understands for each transfer
+     */
+    private parseArgs(args: string[]): MockTransferSpec[] {
+        const newSpec = (): MockTransferSpec => ({
+            args: [],
+            include: false,
+            followRedirects: false,
+            maxRedirects: 50,
+            httpVersion: '2',
+            readsBody: false
+        });
+        const transfers = [newSpec()];
+
+        for (let index = 0; index < args.length; index++) {
+            const arg = args[index];
+            if (arg === '--next') {
+                transfers.push(newSpec());
+                continue;
+            }
+
+            const spec = transfers[transfers.length - 1];
+            const value = VALUE_OPTIONS.has(arg) ? args[++index] : undefined;
+            spec.args.push(arg, ...(value !== undefined ? [value] : []));
+
+            switch (arg) {
+                case '-X': spec.method = value!.toUpperCase(); break;
+                case '-i': spec.include = true; break;
+                case '-w': spec.writeOut = value; break;
+                case '-L': spec.followRedirects = true; break;
+                case '-K': spec.configSource = value; break;
+                case '-o': spec.outputPath = value; break;
+                case '--max-redirs': spec.maxRedirects = Number(value); break;
+                case '--max-time': spec.maxTimeMs = Number(value) * 1000; break;
+                case '--http1.1': spec.httpVersion = '1.1'; break;
+                case '--http3': spec.httpVersion = '3'; break;
+                case '-T':
+                    spec.readsBody = true;
+                    spec.method = spec.method || 'PUT';
+                    break;
+                case '--data-binary': spec.readsBody = value === '@-'; break;
+            }
+        }
+
+        return transfers;
+    }
+
+    private renderHead(response: MockResponse, status: number, requestedVersion: string): Buffer {
+        const version = `HTTP/${response.httpVersion ?? requestedVersion}`;
+        const headers = Array.isArray(response.headers) ? response.headers : Object.entries(response.headers || {});
+        const lines = [
+            `${version} ${status} ${response.statusText ?? ''}`,
+            ...headers.map(([name, value]) => `${name}: ${value}`)
+        ];
+        return Buffer.from(lines.join('\r\n') + '\r\n\r\n', 'latin1');
+    }
+
+    /**
+     * Write verbose lines of a transfer, with its ids in front when --trace-ids asks for them
+     */
+    private trace(index: number, lines: string[]): void {
+        const prefix = this.args.includes('--trace-ids') ? `[${index}-0] ` : '';
+        this.write(this.stderr, lines.map(line => `${prefix}${line}\n`).join(''));
+    }
+
+    private requestTarget(url: string): string {
+        try {
+            const parsed = new URL(url);
+            return parsed.pathname + parsed.search;
+        } catch {
+            return url;
+        }
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const wake = () => {
+                clearTimeout(timer);
+                this.wakers.delete(wake);
+                resolve();
+            };
+            const timer = setTimeout(wake, ms);
+            this.wakers.add(wake);
+        });
+    }
+
+    private write(stream: PassThrough, data: string | Buffer): void {
+        if (!this.killed && !stream.writableEnded) {
+            stream.write(data);
+        }
+    }
+
+    /**
+     * Like a child process, 'close' only fires once stdout and stderr have been read to the end
+     */
+    private exit(code: number | null, signal: NodeJS.Signals | null): void {
+        if (this.stdout.writableEnded) {
+            return;
+        }
+
+        const ended = [this.stdout, this.stderr].map(stream => new Promise(resolve => {
+            stream.once('end', resolve);
+            stream.once('close', resolve);
+        }));
+        this.stdout.end();
+        this.stderr.end();
+        Promise.all(ended).then(() => this.emit('close', code, signal));
+    }
+}
+
+function matchesUrl(matcher: MockUrlMatcher, url: string): boolean {
+    if (typeof matcher === 'function') {
+        return matcher(url);
+    }
+    if (matcher instanceof RegExp) {
+        return matcher.test(url);
+    }
+    return normalizeUrl(matcher) === normalizeUrl(url);
+}
+
+function normalizeUrl(url: string): string {
+    try {
+        return new URL(url).toString();
+    } catch {
+        return url;
+    }
+}
+
+function getHeader(headers: MockResponse['headers'], name: string): string | undefined {
+    const entries = Array.isArray(headers) ? headers : Object.entries(headers || {});
+    return entries.find(([key]) => key.toLowerCase() === name)?.[1];
+}
+
+function toBuffer(body: string | Buffer | undefined): Buffer {
+    return Buffer.isBuffer(body) ? body : Buffer.from(body ?? '', 'utf8');
+}
+
+/**
+ * Expand a -w format: \n escapes, %{json} and single %{variable}s
+ */
+function renderWriteOut(format: string, transferInfo: Record<string, any>): string {
+    return format
+        .replace(/\\n/g, '\n')
+        .replace(/%\{(\w+)\}/g, (_, name: string) =>
+            name === 'json' ? JSON.stringify(transferInfo) : String(transferInfo[name] ?? ''));
+}
@@ -0,0 +1,67 @@
+import { ProcessScheduler } from './process-scheduler';
+import { AbortError, SchedulerError } from './errors';
+
+describe('ProcessScheduler', () => {
+    it('should run at most maxConcurrentProcesses tasks at once', async () => {
+        const scheduler = new ProcessScheduler({ maxConcurrentProcesses: 2 });
+        let running = 0;
+        let peak = 0;
+
+        const task = () => scheduler.run(async () => {
+            running++;
+            peak = Math.max(peak, running);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            running--;
+        });
+
+        const all = Promise.all(Array.from({ length: 6 }, task));
+        expect(scheduler.getMetrics()).toMatchObject({ running: 2, queued: 4 });
+
+        await all;
+        expect(peak).toBe(2);
+        expect(scheduler.getMetrics()).toMatchObject({ running: 0, queued: 0, completed: 6 });
+    });
+
+    it('should start higher priority requests first', async () => {
+        const scheduler = new ProcessScheduler({ maxConcurrentProcesses: 1 });
+        const order: string[] = [];
+        const release = await scheduler.acquire();
+
+        const waiting = [
+            scheduler.run(async () => { order.push('low'); }, { priority: -1 }),
+            scheduler.run(async () => { order.push('normal-1'); }),
+            scheduler.run(async () => { order.push('high'); }, { priority: 10 }),
+            scheduler.run(async () => { order.push('normal-2'); })
+        ];
+        release();
+        await Promise.all(waiting);
+
+        expect(order).toEqual(['high', 'normal-1', 'normal-2', 'low']);
+    });
+
+    it('should reject when the queue is full or the wait times out', async () => {
+        const scheduler = new ProcessScheduler({ maxConcurrentProcesses: 1, maxQueueSize: 1 });
+        const release = await scheduler.acquire();
+
+        const queued = scheduler.acquire({ queueTimeoutMs: 10 });
+        await expect(scheduler.acquire()).rejects.toMatchObject({ code: 'QUEUE_FULL' });
+        await expect(queued).rejects.toBeInstanceOf(SchedulerError);
+        expect(scheduler.getMetrics()).toMatchObject({ queued: 0, queueTimeouts: 1, queueRejections: 1 });
+
+        release();
+    });
+
+    it('should drop aborted requests from the queue', async () => {
+        const scheduler = new ProcessScheduler({ maxConcurrentProcesses: 1 });
+        const release = await scheduler.acquire();
+        const controller = new AbortController();
+
+        const queued = scheduler.acquire({ signal: controller.signal });
+        controller.abort();
+
+        await expect(queued).rejects.toBeInstanceOf(AbortError);
+        expect(scheduler.getMetrics().queued).toBe(0);
+        release();
+        expect(scheduler.getMetrics().running).toBe(0);
+    });
+});
@@ -0,0 +1,178 @@
+import { SchedulerError, createAbortError } from './errors';
+
+export interface ProcessSchedulerOptions {
+    maxConcurrentProcesses?: number;
+    maxQueueSize?: number; // Waiting requests beyond this are rejected with QUEUE_FULL
+    queueTimeoutMs?: number; // How long a request may wait for a free slot
+}
+
+export interface ProcessSchedulerMetrics {
+    running: number;
+    queued: number;
+    maxConcurrentProcesses: number;
+    maxQueueSize: number;
+    completed: number;
+    queueTimeouts: number;
+    queueRejections: number;
+}
+
+export interface AcquireOptions {
+    priority?: number; // Higher runs first; equal priorities run in arrival order
+    queueTimeoutMs?: number;
+    signal?: AbortSignal;
+}
+
+// Releases a process slot; calling it more than once has no effect
+export type ReleaseSlot = () => void;
+
+interface QueueEntry {
+    priority: number;
+    grant: (release: ReleaseSlot) => void;
+    fail: (error: Error) => void;
+}
+
+/**
+ * Limits how many curl processes run at once and queues the rest
+ * One instance is shared by every CurlImpersonate unless another is passed in
+ */
+export class ProcessScheduler {
+    private options: Required<ProcessSchedulerOptions>;
+    private queue: QueueEntry[] = [];
+    private running = 0;
+    private completed = 0;
+    private queueTimeouts = 0;
+    private queueRejections = 0;
+
+    constructor(options: ProcessSchedulerOptions = {}) {
+        this.options = {
+            maxConcurrentProcesses: 32,
+            maxQueueSize: Infinity,
+            queueTimeoutMs: 0,
+            ...options
+        };
+    }
+
+    /**
+     * Change limits at runtime; a higher process limit starts queued requests right away
+     */
+    configure(options: ProcessSchedulerOptions): void {
+        this.options = { ...this.options, ...options };
+        this.drain();
+    }
+
+    /**
+     * Wait for a free process slot
+     */
+    acquire(options: AcquireOptions = {}): Promise<ReleaseSlot> {
+        const { priority = 0, signal } = options;
+        const queueTimeoutMs = options.queueTimeoutMs ?? this.options.queueTimeoutMs;
+
+        if (signal?.aborted) {
+            return Promise.reject(createAbortError(signal));
+        }
+
+        if (this.running < this.options.maxConcurrentProcesses && this.queue.length === 0) {
+            this.running++;
+            return Promise.resolve(this.createRelease());
+        }
+
+        if (this.queue.length >= this.options.maxQueueSize) {
+            this.queueRejections++;
+            return Promise.reject(new SchedulerError(
+                `Request queue is full (${this.options.maxQueueSize} waiting)`,
+                'QUEUE_FULL'
+            ));
+        }
+
+        return new Promise((resolve, reject) => {
+            let timer: NodeJS.Timeout | undefined;
+
+            const leave = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+                this.queue = this.queue.filter(item => item !== entry);
+            };
+            const onAbort = () => {
+                leave();
+                reject(createAbortError(signal!));
+            };
+            const entry: QueueEntry = {
+                priority,
+                grant: release => {
+                    leave();
+                    resolve(release);
+                },
+                fail: error => {
+                    leave();
+                    reject(error);
+                }
+            };
+
+            if (queueTimeoutMs > 0) {
+                timer = setTimeout(() => {
+                    this.queueTimeouts++;
+                    entry.fail(new SchedulerError(
+                        `Timed out after ${queueTimeoutMs} milliseconds waiting for a curl process slot`,
+                        'QUEUE_TIMEOUT'
+                    ));
+                }, queueTimeoutMs);
+            }
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            // Insert after every entry of the same or higher priority
+            const index = this.queue.findIndex(item => item.priority < priority);
+            this.queue.splice(index === -1 ? this.queue.length : index, 0, entry);
+        });
+    }
+
+    /**
+     * Run a task while holding a process slot
+     */
+    async run<T>(task: () => Promise<T>, options: AcquireOptions = {}): Promise<T> {
+        const release = await this.acquire(options);
+        try {
+            return await task();
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * Current load, for monitoring and backpressure decisions
+     */
+    getMetrics(): ProcessSchedulerMetrics {
+        return {
+            running: this.running,
+            queued: this.queue.length,
+            maxConcurrentProcesses: this.options.maxConcurrentProcesses,
+            maxQueueSize: this.options.maxQueueSize,
+            completed: this.completed,
+            queueTimeouts: this.queueTimeouts,
+            queueRejections: this.queueRejections
+        };
+    }
+
+    private createRelease(): ReleaseSlot {
+        let released = false;
+        return () => {
+            if (released) {
+                return;
+            }
+            released = true;
+            this.running--;
+            this.completed++;
+            this.drain();
+        };
+    }
+
+    private drain(): void {
+        while (this.running < this.options.maxConcurrentProcesses && this.queue.length > 0) {
+            const entry = this.queue[0];
+            this.running++;
+            entry.grant(this.createRelease());
+        }
+    }
+}
+
+// Shared by all CurlImpersonate instances (and so by CloudflareScraper and the Puppeteer helpers)
+export const processScheduler = new ProcessScheduler();
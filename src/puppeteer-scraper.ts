@@ -3,6 +3,7 @@
 import { HTTPRequest, HTTPResponse } from 'puppeteer-core';
 import { CurlImpersonate } from './curl-impersonate';
 import { RequestOptions, HttpResponse, CurlImpersonateConfig } from './types';
+import { AbortError } from './errors';
 
 export interface CurlInterceptionOptions extends RequestOptions {
     enableDebug?: boolean;
@@ -13,7 +14,7 @@ export interface InterceptedResponse {
     status: number;
     contentType: string;
     headers: Record<string, string>;
-    body: string;
+    body: Buffer;
 }
 
 // Type for the response that matches Puppeteer's HTTPResponse structure
@@ -21,7 +22,7 @@ export type PuppeteerResponse = {
     status: number;
     contentType: string;
     headers: Record<string, string>;
-    body: string;
+    body: Buffer;
 };
 
 /**
@@ -57,6 +58,8 @@ export async function handleRequestWithCurl(
             method,
             headers,
             body: postData,
+            // Images, fonts and other binary assets must reach the page byte for byte
+            responseType: 'buffer',
             ...options
         };
 
@@ -76,7 +79,7 @@ export async function handleRequestWithCurl(
             status: response.statusCode,
             contentType: response.headers['content-type'] || 'text/html',
             headers: response.headers,
-            body: response.body,
+            body: response.rawBody ?? Buffer.from(response.body),
         };
 
     } catch (error) {
@@ -114,8 +117,8 @@ export function createRequestInterceptor(
                 console.log(`[CurlInterception] Interception failed, aborting request: ${error}`);
             }
             
-            // If curl-impersonate fails, abort the request
-            await request.abort();
+            // If curl-impersonate fails, abort the request ('aborted' when it was cancelled via options.signal)
+            await request.abort(error instanceof AbortError ? 'aborted' : 'failed');
         }
     };
 }
@@ -178,8 +181,8 @@ export function createSelectiveRequestInterceptor(
                 console.log(`[CurlInterception] Selective interception failed, aborting request: ${error}`);
             }
             
-            // If curl-impersonate fails, abort the request
-            await request.abort();
+            // If curl-impersonate fails, abort the request ('aborted' when it was cancelled via options.signal)
+            await request.abort(error instanceof AbortError ? 'aborted' : 'failed');
         }
     };
 }
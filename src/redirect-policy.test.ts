@@ -0,0 +1,61 @@
+import {
+    getRedirectHeaders,
+    getRedirectMethod,
+    getSecFetchSite,
+    resolveReferrer
+} from './redirect-policy';
+
+describe('Redirect Policy', () => {
+    describe('Method Changes', () => {
+        it('should switch to GET the way browsers do', () => {
+            expect(getRedirectMethod(302, 'POST')).toBe('GET');
+            expect(getRedirectMethod(301, 'POST')).toBe('GET');
+            expect(getRedirectMethod(303, 'PUT')).toBe('GET');
+            expect(getRedirectMethod(303, 'HEAD')).toBe('HEAD');
+            expect(getRedirectMethod(307, 'POST')).toBe('POST');
+            expect(getRedirectMethod(308, 'PUT')).toBe('PUT');
+        });
+    });
+
+    describe('Referer', () => {
+        const referrer = 'https://shop.example.com/cart?id=1#top';
+
+        it('should trim cross-origin referrers to the origin by default', () => {
+            expect(resolveReferrer(referrer, 'https://shop.example.com/checkout')).toBe('https://shop.example.com/cart?id=1');
+            expect(resolveReferrer(referrer, 'https://pay.example.net/')).toBe('https://shop.example.com/');
+            expect(resolveReferrer(referrer, 'http://shop.example.com/')).toBeUndefined();
+        });
+
+        it('should honour a Referrer-Policy set by a redirect', () => {
+            expect(resolveReferrer(referrer, 'https://pay.example.net/', 'no-referrer')).toBeUndefined();
+            expect(resolveReferrer(referrer, 'https://pay.example.net/', 'unsafe-url')).toBe('https://shop.example.com/cart?id=1');
+        });
+    });
+
+    describe('Sec-Fetch-Site', () => {
+        it('should weaken as the chain leaves the initiator origin', () => {
+            const initiator = 'https://www.example.com/';
+
+            expect(getSecFetchSite('same-origin', initiator, ['https://www.example.com/a'])).toBe('same-origin');
+            expect(getSecFetchSite('same-origin', initiator, ['https://login.example.com/'])).toBe('same-site');
+            expect(getSecFetchSite('same-origin', initiator, ['https://sso.other.com/', 'https://www.example.com/'])).toBe('cross-site');
+            expect(getSecFetchSite('same-origin', 'https://a.github.io/', ['https://b.github.io/'])).toBe('cross-site');
+            expect(getSecFetchSite('same-origin', 'https://www.example.co.uk/', ['https://login.example.co.uk/'])).toBe('same-site');
+            expect(getSecFetchSite('same-site', initiator, ['https://www.example.com/'])).toBe('same-site');
+        });
+
+        it('should keep none for user-initiated navigations', () => {
+            expect(getSecFetchSite('none', 'https://a.com/', ['https://b.com/'])).toBe('none');
+        });
+    });
+
+    describe('Headers', () => {
+        it('should drop body headers on method change and credentials across origins', () => {
+            const headers = { 'Content-Type': 'application/json', Authorization: 'Bearer x', Referer: 'https://a.com/', Accept: '*/*' };
+
+            expect(getRedirectHeaders(headers, { dropBodyHeaders: true, crossOrigin: true })).toEqual({ Accept: '*/*' });
+            expect(getRedirectHeaders(headers, { dropBodyHeaders: false, crossOrigin: false }))
+                .toEqual({ 'Content-Type': 'application/json', Authorization: 'Bearer x', Accept: '*/*' });
+        });
+    });
+});
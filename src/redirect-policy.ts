@@ -0,0 +1,114 @@
+import { getDomain } from 'tldts';
+import { RequestOptions } from './types';
+
+type SecFetchSite = 'same-origin' | 'same-site' | 'cross-site' | 'none';
+
+const SITE_RANK: Record<string, number> = { 'same-origin': 0, 'same-site': 1, 'cross-site': 2 };
+
+/**
+ * Method used for the next hop: 303 always becomes GET, and 301/302 turn POST into GET like browsers do
+ */
+export function getRedirectMethod(statusCode: number, method: string): string {
+    if (statusCode === 303 && method !== 'HEAD') {
+        return 'GET';
+    }
+    if ((statusCode === 301 || statusCode === 302) && method === 'POST') {
+        return 'GET';
+    }
+    return method;
+}
+
+/**
+ * Referer sent to target for a navigation that started from referrer, under the given Referrer-Policy
+ */
+export function resolveReferrer(
+    referrer: string | undefined,
+    target: string,
+    policy: string = 'strict-origin-when-cross-origin'
+): string | undefined {
+    if (!referrer) {
+        return undefined;
+    }
+
+    const from = new URL(referrer);
+    const to = new URL(target);
+    const full = `${from.origin}${from.pathname}${from.search}`;
+    const origin = `${from.origin}/`;
+    const sameOrigin = from.origin === to.origin;
+    const downgrade = from.protocol === 'https:' && to.protocol !== 'https:';
+
+    switch (policy.toLowerCase()) {
+        case 'no-referrer':
+            return undefined;
+        case 'origin':
+            return origin;
+        case 'unsafe-url':
+            return full;
+        case 'same-origin':
+            return sameOrigin ? full : undefined;
+        case 'origin-when-cross-origin':
+            return sameOrigin ? full : origin;
+        case 'strict-origin':
+            return downgrade ? undefined : origin;
+        case 'no-referrer-when-downgrade':
+            return downgrade ? undefined : full;
+        default:
+            // strict-origin-when-cross-origin, the browser default
+            if (sameOrigin) {
+                return full;
+            }
+            return downgrade ? undefined : origin;
+    }
+}
+
+/**
+ * Sec-Fetch-Site for a request that has been redirected through urlChain
+ * The value only ever gets weaker: once any hop leaves the initiator's site it stays cross-site
+ */
+export function getSecFetchSite(initial: string, initiator: string, urlChain: string[]): SecFetchSite {
+    // User-initiated navigations keep 'none' across redirects
+    if (initial === 'none') {
+        return 'none';
+    }
+
+    let rank = SITE_RANK[initial] ?? 0;
+    const initiatorUrl = new URL(initiator);
+
+    for (const url of urlChain) {
+        const hop = new URL(url);
+        if (hop.origin === initiatorUrl.origin) {
+            continue;
+        }
+        const sameSite = hop.protocol === initiatorUrl.protocol &&
+            getRegistrableDomain(hop.hostname) === getRegistrableDomain(initiatorUrl.hostname);
+        rank = Math.max(rank, sameSite ? SITE_RANK['same-site'] : SITE_RANK['cross-site']);
+    }
+
+    return (Object.keys(SITE_RANK).find(key => SITE_RANK[key] === rank) || 'cross-site') as SecFetchSite;
+}
+
+/**
+ * Headers for the next hop, without the ones a browser drops when the request changes method or origin
+ */
+export function getRedirectHeaders(
+    headers: RequestOptions['headers'],
+    { dropBodyHeaders, crossOrigin }: { dropBodyHeaders: boolean; crossOrigin: boolean }
+): Record<string, string> {
+    const bodyHeaders = ['content-type', 'content-length', 'content-encoding', 'content-language', 'content-location'];
+    const recomputed = ['referer', 'sec-fetch-site'];
+
+    return Object.fromEntries(Object.entries(headers || {}).filter(([name]) => {
+        const key = name.toLowerCase();
+        return !recomputed.includes(key) &&
+            !(dropBodyHeaders && bodyHeaders.includes(key)) &&
+            !(crossOrigin && key === 'authorization');
+    }));
+}
+
+/**
+ * Registrable domain (eTLD+1) by the public suffix list, with the same private suffixes the cookie
+ * jar uses; IP addresses and hosts that are a suffix themselves (localhost) are their own site
+ */
+function getRegistrableDomain(hostname: string): string {
+    return getDomain(hostname, { allowPrivateDomains: true }) ?? hostname;
+}
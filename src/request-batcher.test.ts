@@ -0,0 +1,51 @@
+import { RequestBatcher, BatchJob } from './request-batcher';
+import { ProcessScheduler } from './process-scheduler';
+import { AbortError, SchedulerError } from './errors';
+
+interface TestJob extends BatchJob {
+    name: string;
+}
+
+describe('RequestBatcher', () => {
+    const job = (name: string, extra: Partial<TestJob> = {}): TestJob => ({ name, reject: jest.fn(), ...extra });
+
+    it('should run jobs queued under the same key together', async () => {
+        const scheduler = new ProcessScheduler({ maxConcurrentProcesses: 1 });
+        const runs: string[][] = [];
+        const batcher = new RequestBatcher<TestJob>(scheduler, 3, async jobs => {
+            runs.push(jobs.map(item => item.name));
+        });
+
+        const release = await scheduler.acquire();
+        ['a1', 'a2', 'a3', 'a4'].forEach(name => batcher.submit('a', job(name)));
+        batcher.submit('b', job('b1'));
+        expect(batcher.getPendingCounts()).toEqual({ a: 4, b: 1 });
+        release();
+
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(runs).toEqual([['a1', 'a2', 'a3'], ['b1'], ['a4']]);
+        expect(scheduler.getMetrics()).toMatchObject({ running: 0, queued: 0, completed: 4 });
+    });
+
+    it('should drop aborted jobs and reject the rest when no slot can be had', async () => {
+        const scheduler = new ProcessScheduler({ maxConcurrentProcesses: 1 });
+        const execute = jest.fn(async () => { });
+        const batcher = new RequestBatcher<TestJob>(scheduler, 8, execute);
+        const controller = new AbortController();
+
+        const release = await scheduler.acquire();
+        const aborted = job('aborted', { signal: controller.signal, queueTimeoutMs: 10 });
+        const waiting = job('waiting');
+        batcher.submit('a', aborted);
+        batcher.submit('a', waiting);
+        controller.abort();
+
+        expect(aborted.reject).toHaveBeenCalledWith(expect.any(AbortError));
+        expect(batcher.getPendingCounts()).toEqual({ a: 1 });
+
+        await new Promise(resolve => setTimeout(resolve, 30));
+        expect(waiting.reject).toHaveBeenCalledWith(expect.any(SchedulerError));
+        expect(execute).not.toHaveBeenCalled();
+        release();
+    });
+});
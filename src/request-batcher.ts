@@ -0,0 +1,120 @@
+import { createAbortError } from './errors';
+import { ProcessScheduler } from './process-scheduler';
+
+// A request waiting to be run as part of a batch; the batcher only ever rejects it
+export interface BatchJob {
+    priority?: number;
+    queueTimeoutMs?: number;
+    signal?: AbortSignal;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Collects requests with the same key while they wait for a process slot, then hands
+ * everything collected so far (up to maxBatchSize) to one run. A key holds at most one
+ * place in the scheduler queue, taken with the priority of the request that opened it.
+ */
+export class RequestBatcher<T extends BatchJob> {
+    private pending = new Map<string, T[]>();
+    private waiting = new Set<string>();
+    private detachers = new Map<T, () => void>();
+
+    constructor(
+        private scheduler: ProcessScheduler,
+        private maxBatchSize: number,
+        private execute: (jobs: T[]) => Promise<void>
+    ) { }
+
+    /**
+     * Queue a job; it runs with whatever else is queued under the same key when a slot frees up
+     */
+    submit(key: string, job: T): void {
+        if (job.signal?.aborted) {
+            job.reject(createAbortError(job.signal));
+            return;
+        }
+
+        const jobs = this.pending.get(key) || [];
+        jobs.push(job);
+        this.pending.set(key, jobs);
+
+        const onAbort = () => {
+            this.remove(key, job);
+            job.reject(createAbortError(job.signal!));
+        };
+        job.signal?.addEventListener('abort', onAbort, { once: true });
+        this.detachers.set(job, () => job.signal?.removeEventListener('abort', onAbort));
+
+        if (!this.waiting.has(key)) {
+            this.acquireFor(key, job);
+        }
+    }
+
+    /**
+     * Number of jobs waiting under each key, for tests and monitoring
+     */
+    getPendingCounts(): Record<string, number> {
+        return Object.fromEntries([...this.pending].map(([key, jobs]) => [key, jobs.length]));
+    }
+
+    private acquireFor(key: string, first: T): void {
+        this.waiting.add(key);
+
+        this.scheduler.acquire({ priority: first.priority, queueTimeoutMs: first.queueTimeoutMs }).then(
+            release => {
+                this.waiting.delete(key);
+                const jobs = this.take(key);
+                if (jobs.length === 0) {
+                    release();
+                    return;
+                }
+
+                // Whatever didn't fit gets its own place in the queue
+                const rest = this.pending.get(key);
+                if (rest) {
+                    this.acquireFor(key, rest[0]);
+                }
+
+                this.execute(jobs)
+                    .catch(error => jobs.forEach(job => job.reject(error)))
+                    .finally(release);
+            },
+            error => {
+                this.waiting.delete(key);
+                for (const job of this.take(key, Infinity)) {
+                    job.reject(error);
+                }
+            }
+        );
+    }
+
+    private take(key: string, limit: number = this.maxBatchSize): T[] {
+        const jobs = this.pending.get(key) || [];
+        const taken = jobs.splice(0, Math.max(1, limit));
+        if (jobs.length === 0) {
+            this.pending.delete(key);
+        }
+
+        for (const job of taken) {
+            this.detachers.get(job)?.();
+            this.detachers.delete(job);
+        }
+        return taken;
+    }
+
+    private remove(key: string, job: T): void {
+        const jobs = this.pending.get(key);
+        if (!jobs) {
+            return;
+        }
+
+        const remaining = jobs.filter(item => item !== job);
+        if (remaining.length > 0) {
+            this.pending.set(key, remaining);
+        } else {
+            this.pending.delete(key);
+        }
+        this.detachers.get(job)?.();
+        this.detachers.delete(job);
+    }
+}
@@ -0,0 +1,88 @@
+import { Readable } from 'stream';
+import { buildRequestBody, encodeMultipartForm, encodeUrlencodedForm } from './request-body';
+import { getFingerprintConfig } from './fingerprint-config';
+
+describe('Request Body Encoding', () => {
+    const chrome = getFingerprintConfig('chrome136-macos')!;
+
+    describe('Raw Bodies', () => {
+        it('should keep Buffer bodies byte for byte without a content type', async () => {
+            const bytes = Buffer.from([0x00, 0x0a, 0x0d, 0xff]);
+            const body = await buildRequestBody({ body: bytes }, chrome);
+
+            expect(body?.data).toBe(bytes);
+            expect(body?.contentType).toBeUndefined();
+        });
+
+        it('should send string bodies as UTF-8 with curl -d\'s content type', async () => {
+            const body = await buildRequestBody({ body: 'line 1\nline 2' }, chrome);
+
+            expect((body?.data as Buffer).toString('utf8')).toBe('line 1\nline 2');
+            expect(body?.contentType).toBe('application/x-www-form-urlencoded');
+        });
+
+        it('should pass streams through untouched', async () => {
+            const stream = Readable.from(['a', 'b']);
+            const body = await buildRequestBody({ body: stream }, chrome);
+
+            expect(body?.data).toBe(stream);
+        });
+
+        it('should return null when there is no body', async () => {
+            expect(await buildRequestBody({}, chrome)).toBeNull();
+        });
+    });
+
+    describe('URL-encoded Forms', () => {
+        it('should serialize fields like a browser form', () => {
+            expect(encodeUrlencodedForm({ q: 'a b&c', page: 2, tags: ['x', 'y'] }))
+                .toBe('q=a+b%26c&page=2&tags=x&tags=y');
+        });
+
+        it('should set the urlencoded content type', async () => {
+            const body = await buildRequestBody({ form: new URLSearchParams({ a: '1' }) }, chrome);
+
+            expect((body?.data as Buffer).toString()).toBe('a=1');
+            expect(body?.contentType).toBe('application/x-www-form-urlencoded');
+        });
+    });
+
+    describe('Multipart Forms', () => {
+        it('should encode text fields and files', async () => {
+            const payload = await encodeMultipartForm({
+                comment: 'hello\nworld',
+                upload: { value: Buffer.from([0x00, 0xff]), filename: 'data.bin' },
+                image: { value: 'fake', filename: 'photo.png' },
+                blob: Buffer.from('raw')
+            }, 'BOUNDARY');
+
+            expect(payload.toString('latin1')).toBe(
+                '--BOUNDARY\r\n' +
+                'Content-Disposition: form-data; name="comment"\r\n\r\n' +
+                'hello\r\nworld\r\n' +
+                '--BOUNDARY\r\n' +
+                'Content-Disposition: form-data; name="upload"; filename="data.bin"\r\n' +
+                'Content-Type: application/octet-stream\r\n\r\n' +
+                '\x00\xff\r\n' +
+                '--BOUNDARY\r\n' +
+                'Content-Disposition: form-data; name="image"; filename="photo.png"\r\n' +
+                'Content-Type: image/png\r\n\r\n' +
+                'fake\r\n' +
+                '--BOUNDARY\r\n' +
+                'Content-Disposition: form-data; name="blob"; filename="blob"\r\n' +
+                'Content-Type: application/octet-stream\r\n\r\n' +
+                'raw\r\n' +
+                '--BOUNDARY--\r\n'
+            );
+        });
+
+        it('should use the browser boundary format', async () => {
+            const chromeBody = await buildRequestBody({ formData: { a: 'b' } }, chrome);
+            expect(chromeBody?.contentType).toMatch(/^multipart\/form-data; boundary=----WebKitFormBoundary[A-Za-z0-9]{16}$/);
+
+            const firefox = { ...chrome, browser: 'firefox' as const };
+            const firefoxBody = await buildRequestBody({ formData: { a: 'b' } }, firefox);
+            expect(firefoxBody?.contentType).toMatch(/^multipart\/form-data; boundary=----geckoformboundary[0-9a-f]{32}$/);
+        });
+    });
+});
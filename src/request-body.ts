@@ -0,0 +1,181 @@
+import { randomBytes } from 'crypto';
+import { readFile } from 'fs/promises';
+import { basename, extname } from 'path';
+import { Readable } from 'stream';
+import { RequestOptions, FormDataValue, MultipartFile } from './types';
+import { FingerprintConfig } from './fingerprint-config';
+
+export interface RequestBody {
+    data: Buffer | Readable;
+    contentType?: string;
+}
+
+// Content types browsers assign to common file extensions in multipart uploads
+const FILE_CONTENT_TYPES: Record<string, string> = {
+    '.txt': 'text/plain',
+    '.html': 'text/html',
+    '.htm': 'text/html',
+    '.css': 'text/css',
+    '.csv': 'text/csv',
+    '.js': 'text/javascript',
+    '.json': 'application/json',
+    '.xml': 'text/xml',
+    '.pdf': 'application/pdf',
+    '.zip': 'application/zip',
+    '.gz': 'application/gzip',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+    '.mp4': 'video/mp4',
+    '.mp3': 'audio/mpeg'
+};
+
+/**
+ * Build the request body bytes from request options, the way a browser would encode them
+ */
+export async function buildRequestBody(
+    options: RequestOptions,
+    fingerprint: FingerprintConfig
+): Promise<RequestBody | null> {
+    if (options.body !== undefined && options.body !== null) {
+        if (options.body instanceof Readable || Buffer.isBuffer(options.body)) {
+            return { data: options.body };
+        }
+        // Same default curl's -d applied when string bodies were passed to it directly
+        return { data: Buffer.from(options.body, 'utf8'), contentType: 'application/x-www-form-urlencoded' };
+    }
+
+    if (options.json !== undefined) {
+        return {
+            data: Buffer.from(JSON.stringify(options.json), 'utf8'),
+            contentType: 'application/json'
+        };
+    }
+
+    if (options.form) {
+        return {
+            data: Buffer.from(encodeUrlencodedForm(options.form), 'utf8'),
+            contentType: 'application/x-www-form-urlencoded'
+        };
+    }
+
+    if (options.formData) {
+        const boundary = createBoundary(fingerprint);
+        return {
+            data: await encodeMultipartForm(options.formData, boundary),
+            contentType: `multipart/form-data; boundary=${boundary}`
+        };
+    }
+
+    return null;
+}
+
+/**
+ * Serialize fields as application/x-www-form-urlencoded
+ */
+export function encodeUrlencodedForm(
+    form: NonNullable<RequestOptions['form']>
+): string {
+    if (form instanceof URLSearchParams) {
+        return form.toString();
+    }
+
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(form)) {
+        const values = Array.isArray(value) ? value : [value];
+        for (const item of values) {
+            params.append(key, String(item));
+        }
+    }
+    return params.toString();
+}
+
+/**
+ * Serialize fields as multipart/form-data using the given boundary
+ */
+export async function encodeMultipartForm(
+    formData: NonNullable<RequestOptions['formData']>,
+    boundary: string
+): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+
+    for (const [name, value] of Object.entries(formData)) {
+        const values = Array.isArray(value) ? value : [value];
+
+        for (const item of values) {
+            chunks.push(Buffer.from(`--${boundary}\r\n`, 'utf8'));
+
+            if (typeof item === 'string') {
+                chunks.push(Buffer.from(`Content-Disposition: form-data; name="${escapeFieldName(name)}"\r\n\r\n`, 'utf8'));
+                // Browsers normalize line breaks in text fields to CRLF
+                chunks.push(Buffer.from(item.replace(/\r\n|\r|\n/g, '\r\n'), 'utf8'));
+            } else {
+                const file = await resolveMultipartFile(item);
+                chunks.push(Buffer.from(
+                    `Content-Disposition: form-data; name="${escapeFieldName(name)}"; filename="${escapeFieldName(file.filename)}"\r\n` +
+                    `Content-Type: ${file.contentType}\r\n\r\n`,
+                    'utf8'
+                ));
+                chunks.push(file.content);
+            }
+
+            chunks.push(Buffer.from('\r\n', 'utf8'));
+        }
+    }
+
+    chunks.push(Buffer.from(`--${boundary}--\r\n`, 'utf8'));
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Load file part content and fill in the filename and content type defaults browsers use
+ */
+async function resolveMultipartFile(
+    value: Exclude<FormDataValue, string>
+): Promise<{ content: Buffer; filename: string; contentType: string }> {
+    // A bare Buffer is sent like a Blob: named "blob" with a generic content type
+    if (Buffer.isBuffer(value)) {
+        return { content: value, filename: 'blob', contentType: 'application/octet-stream' };
+    }
+
+    const file = value as MultipartFile;
+    let content: Buffer;
+    if (file.path) {
+        content = await readFile(file.path);
+    } else if (file.value !== undefined) {
+        content = Buffer.isBuffer(file.value) ? file.value : Buffer.from(file.value, 'utf8');
+    } else {
+        throw new Error('Multipart file requires either a value or a path');
+    }
+
+    const filename = file.filename ?? (file.path ? basename(file.path) : 'blob');
+    const contentType = file.contentType ??
+        FILE_CONTENT_TYPES[extname(filename).toLowerCase()] ??
+        'application/octet-stream';
+
+    return { content, filename, contentType };
+}
+
+/**
+ * Escape field names and filenames as the HTML multipart encoding algorithm does
+ */
+function escapeFieldName(name: string): string {
+    return name.replace(/\n/g, '%0A').replace(/\r/g, '%0D').replace(/"/g, '%22');
+}
+
+/**
+ * Generate a multipart boundary in the browser's own format
+ */
+function createBoundary(fingerprint: FingerprintConfig): string {
+    if (fingerprint.browser === 'firefox') {
+        return `----geckoformboundary${randomBytes(16).toString('hex')}`;
+    }
+
+    // Chromium and WebKit: 16 characters from WebKit's 64-entry alphanumeric table
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789AB';
+    const suffix = Array.from(randomBytes(16), byte => alphabet[byte & 0x3f]).join('');
+    return `----WebKitFormBoundary${suffix}`;
+}
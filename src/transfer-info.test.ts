@@ -0,0 +1,87 @@
+import { getConnectionInfo, getResponseTimings, parseVerboseTrace, selectTransferTrace } from './transfer-info';
+
+describe('Transfer Info', () => {
+    const stderr = [
+        '16:41:35.032331 *   Trying 10.0.0.2:3128...',
+        '16:41:35.032535 * Connected to 10.0.0.2 (10.0.0.2) port 3128 (#0)',
+        '16:41:35.032614 > CONNECT example.com:443 HTTP/1.1',
+        '16:41:35.032614 > Host: example.com:443',
+        '16:41:35.034445 < HTTP/1.1 200 Connection established',
+        '16:41:35.052614 * CONNECT phase completed',
+        '16:41:35.060000 * ALPN: server accepted h2',
+        '16:41:35.060001 * SSL connection using TLSv1.3 / TLS_AES_128_GCM_SHA256 / X25519 / RSASSA-PSS',
+        'curl: (0) not a trace line'
+    ].join('\n');
+
+    it('should strip trace timestamps and keep the plain verbose text', () => {
+        const trace = parseVerboseTrace(stderr);
+
+        expect(trace.lines).toHaveLength(8);
+        expect(trace.lines[0]).toEqual({ time: 60095032.331, text: '*   Trying 10.0.0.2:3128...' });
+        expect(trace.text.split('\n')[2]).toBe('> CONNECT example.com:443 HTTP/1.1');
+        expect(trace.text.split('\n')[8]).toBe('curl: (0) not a trace line');
+    });
+
+    it('should pick one transfer out of a parallel run', () => {
+        const parallel = parseVerboseTrace([
+            '16:41:35.032331 [0-x] * Trying 10.0.0.2:443...',
+            '16:41:35.032535 [1-x] * Trying 10.0.0.2:443...',
+            '16:41:35.040000 [0-0] > GET /a HTTP/2',
+            '16:41:35.040100 [1-0] > GET /b HTTP/2',
+            '16:41:35.050000 [1-0] * ALPN: server accepted h2',
+            'curl: (7) Failed to connect'
+        ].join('\n'));
+
+        const second = selectTransferTrace(parallel, 1);
+
+        expect(second.text).toBe('* Trying 10.0.0.2:443...\n> GET /b HTTP/2\n* ALPN: server accepted h2\ncurl: (7) Failed to connect');
+        expect(second.lines.map(line => line.text)).toEqual(['* Trying 10.0.0.2:443...', '> GET /b HTTP/2', '* ALPN: server accepted h2']);
+        expect(second.lines[1].time).toBe(60095040.1);
+    });
+
+    it('should split cumulative curl times into phases', () => {
+        const timings = getResponseTimings({
+            time_namelookup: 0.005,
+            time_connect: 0.015,
+            time_appconnect: 0.065,
+            time_pretransfer: 0.066,
+            time_starttransfer: 0.166,
+            time_redirect: 0,
+            time_total: 0.2
+        }, parseVerboseTrace(stderr).lines);
+
+        expect(timings).toEqual({
+            dns: 5,
+            tcpConnect: 10,
+            proxyConnect: 20,
+            tlsHandshake: 30,
+            firstByte: 100,
+            transfer: 34,
+            redirects: 0,
+            total: 200
+        });
+    });
+
+    it('should leave proxyConnect out when no tunnel was opened', () => {
+        expect(getResponseTimings({ time_total: 0.1 }).proxyConnect).toBeUndefined();
+    });
+
+    it('should read negotiated protocol details from verbose output', () => {
+        const connection = getConnectionInfo(
+            { remote_ip: '10.0.0.2', remote_port: 3128, http_version: '2', num_connects: 1 },
+            parseVerboseTrace(stderr).text,
+            true
+        );
+
+        expect(connection).toMatchObject({
+            remoteIp: '10.0.0.2',
+            remotePort: 3128,
+            httpVersion: '2',
+            alpn: 'h2',
+            tlsVersion: 'TLSv1.3',
+            tlsCipher: 'TLS_AES_128_GCM_SHA256',
+            proxy: true,
+            connectionsOpened: 1
+        });
+    });
+});
@@ -0,0 +1,148 @@
+import { ConnectionInfo, ResponseTimings } from './types';
+
+// Verbose output line with the time curl logged it (--trace-time), in milliseconds since midnight
+export interface TraceLine {
+    time: number;
+    text: string;
+}
+
+const TRACE_TIME_PATTERN = /^(\d{2}):(\d{2}):(\d{2})\.(\d{6}) /;
+// --trace-ids prefix: transfer id, then connection id or x before there is a connection
+const TRACE_ID_PATTERN = /^\[(\d+)-(?:\d+|x)\] /;
+
+/**
+ * Split --trace-time timestamps off curl's verbose output
+ * Returns the plain text (as -v alone would print it) and the timestamped lines
+ */
+export function parseVerboseTrace(stderr: string): { text: string; lines: TraceLine[] } {
+    const lines: TraceLine[] = [];
+    const plain: string[] = [];
+
+    for (const line of stderr.split('\n')) {
+        const match = line.match(TRACE_TIME_PATTERN);
+        if (!match) {
+            plain.push(line);
+            continue;
+        }
+
+        const [, hours, minutes, seconds, micros] = match;
+        const text = line.substring(match[0].length);
+        lines.push({
+            time: ((Number(hours) * 60 + Number(minutes)) * 60 + Number(seconds)) * 1000 + Number(micros) / 1000,
+            text
+        });
+        plain.push(text);
+    }
+
+    return { text: plain.join('\n'), lines };
+}
+
+/**
+ * One transfer's part of the verbose output of a parallel run, whose lines --trace-ids prefixes
+ * with [transfer id-connection id]. The prefixes are removed; lines logged outside any transfer,
+ * such as curl's error lines, are kept for every transfer.
+ */
+export function selectTransferTrace(verbose: { text: string; lines: TraceLine[] }, transferId: number): { text: string; lines: TraceLine[] } {
+    const select = (text: string): string | null => {
+        const match = text.match(TRACE_ID_PATTERN);
+        if (!match) {
+            return text;
+        }
+        return Number(match[1]) === transferId ? text.substring(match[0].length) : null;
+    };
+
+    return {
+        text: verbose.text.split('\n').map(select).filter((line): line is string => line !== null).join('\n'),
+        lines: verbose.lines.flatMap(line => {
+            const text = select(line.text);
+            return text === null ? [] : [{ time: line.time, text }];
+        })
+    };
+}
+
+/**
+ * Per-phase timings from curl's JSON write-out, which reports cumulative seconds
+ * from the start of the final transfer
+ */
+export function getResponseTimings(transferInfo: Record<string, any>, trace: TraceLine[] = []): ResponseTimings {
+    const namelookup = toMilliseconds(transferInfo.time_namelookup);
+    const connect = toMilliseconds(transferInfo.time_connect);
+    const appconnect = toMilliseconds(transferInfo.time_appconnect);
+    const pretransfer = toMilliseconds(transferInfo.time_pretransfer);
+    const starttransfer = toMilliseconds(transferInfo.time_starttransfer);
+    const redirects = toMilliseconds(transferInfo.time_redirect);
+    const total = toMilliseconds(transferInfo.time_total);
+    const proxyConnect = getProxyConnectTime(trace);
+
+    // Through a tunnel, curl's appconnect mark also covers the CONNECT exchange
+    const tlsHandshake = appconnect > 0 ? Math.max(appconnect - connect - (proxyConnect ?? 0), 0) : 0;
+
+    return {
+        dns: round(namelookup),
+        tcpConnect: round(Math.max(connect - namelookup, 0)),
+        proxyConnect: proxyConnect !== undefined ? round(proxyConnect) : undefined,
+        tlsHandshake: round(tlsHandshake),
+        firstByte: round(Math.max(starttransfer - pretransfer, 0)),
+        transfer: round(Math.max(total - redirects - starttransfer, 0)),
+        redirects: round(redirects),
+        total: round(total)
+    };
+}
+
+/**
+ * Connection metadata from the write-out, plus what only verbose output reports (ALPN, TLS details)
+ */
+export function getConnectionInfo(transferInfo: Record<string, any>, verbose: string, usedProxy: boolean): ConnectionInfo {
+    const alpn = lastMatch(verbose, /ALPN[:,] server accepted(?: to use)? (\S+)/g);
+    const tls = lastMatch(verbose, /SSL connection using (\S+) \/ ([^\s/]+)/g);
+
+    return {
+        remoteIp: transferInfo.remote_ip || undefined,
+        remotePort: transferInfo.remote_port || undefined,
+        localIp: transferInfo.local_ip || undefined,
+        localPort: transferInfo.local_port || undefined,
+        httpVersion: String(transferInfo.http_version ?? ''),
+        alpn: alpn?.[1],
+        tlsVersion: tls?.[1],
+        tlsCipher: tls?.[2],
+        // Newer curl reports this itself; older builds only know what was configured
+        proxy: transferInfo.proxy_used !== undefined ? Boolean(transferInfo.proxy_used) : usedProxy,
+        connectionsOpened: Number(transferInfo.num_connects ?? 0)
+    };
+}
+
+/**
+ * Time from sending CONNECT to the proxy until the tunnel was up, for the last tunnel opened
+ */
+function getProxyConnectTime(trace: TraceLine[]): number | undefined {
+    let start: number | undefined;
+    let duration: number | undefined;
+
+    for (const line of trace) {
+        if (line.text.startsWith('> CONNECT ')) {
+            start = line.time;
+        } else if (start !== undefined && /CONNECT (phase completed|tunnel established)/.test(line.text)) {
+            // Timestamps are wall-clock times of day, so a tunnel opened across midnight wraps around
+            duration = line.time >= start ? line.time - start : line.time + 86400000 - start;
+            start = undefined;
+        }
+    }
+
+    return duration;
+}
+
+function lastMatch(text: string, pattern: RegExp): RegExpMatchArray | undefined {
+    let result: RegExpMatchArray | undefined;
+    for (const match of text.matchAll(pattern)) {
+        result = match;
+    }
+    return result;
+}
+
+function toMilliseconds(seconds: unknown): number {
+    return typeof seconds === 'number' ? seconds * 1000 : 0;
+}
+
+function round(ms: number): number {
+    return Math.round(ms * 1000) / 1000;
+}
@@ -0,0 +1,37 @@
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import { Readable, Writable } from 'stream';
+
+/**
+ * A running curl: request config and body go in on stdin, the raw response comes out on
+ * stdout and verbose output on stderr. Emits 'close' with the exit code (null when killed)
+ * and 'error' when it could not be started, like a ChildProcess.
+ */
+export interface TransportProcess extends EventEmitter {
+    stdin: Writable;
+    stdout: Readable;
+    stderr: Readable;
+    kill(signal?: NodeJS.Signals): boolean;
+}
+
+/**
+ * Runs curl command lines built by CurlImpersonate
+ */
+export interface Transport {
+    spawn(args: string[]): TransportProcess;
+    features?: string[]; // curl features it supports, as curl -V lists them (e.g. 'HTTP3'); none are assumed when absent
+}
+
+/**
+ * Default transport: runs the curl-impersonate binary
+ */
+export class CliTransport implements Transport {
+    constructor(private binaryPath: string) { }
+
+    spawn(args: string[]): TransportProcess {
+        return spawn(this.binaryPath, args, {
+            stdio: ['pipe', 'pipe', 'pipe'],
+            shell: false
+        });
+    }
+}
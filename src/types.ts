@@ -1,3 +1,9 @@
+import { Readable } from 'stream';
+import type { ProcessScheduler } from './process-scheduler';
+import type { Transport } from './transport';
+import type { AltSvcCache } from './alt-svc';
+import type { CookieJar } from './cookie-jar';
+
 // Core scraping types
 export interface ScrapingSession {
     id: string;
@@ -43,12 +49,19 @@ export interface CloudflareChallenge {
 }
 
 // Proxy management types
+// socks4a and socks5h resolve the target hostname on the proxy instead of locally
+export type ProxyProtocol = 'http' | 'https' | 'socks4' | 'socks4a' | 'socks5' | 'socks5h';
+
+// Build with parseProxy() from a URL or provider string such as 'host:port:user:pass'
 export interface ProxyConfig {
     host: string;
     port: number;
-    protocol: 'http' | 'https' | 'socks4' | 'socks5';
-    username?: string;
+    protocol: ProxyProtocol;
+    username?: string; // Percent-encoded when sent, so any character is fine
     password?: string;
+    headers?: Record<string, string>; // Sent to the proxy only, e.g. on the CONNECT request (--proxy-header)
+    tls?: ProxyTlsOptions; // For https proxies
+    preproxy?: ProxyConfig | string; // SOCKS proxy to reach this proxy through (--preproxy)
     country?: string;
     speed?: number;
     lastUsed?: number;
@@ -83,35 +96,192 @@ export interface MultiThreadingConfig {
     loadBalancing?: 'round-robin' | 'least-busy' | 'random';
 }
 
-export interface RequestOptions {
+// Multipart file part, loaded from memory or from disk
+export interface MultipartFile {
+    value?: string | Buffer;
+    path?: string;
+    filename?: string; // Defaults to the file name of path, or "blob"
+    contentType?: string; // Defaults to a type derived from the file extension
+}
+
+export type FormDataValue = string | Buffer | MultipartFile;
+
+// 'auto' negotiates HTTP/2 or 1.1 through ALPN, and moves to HTTP/3 once Alt-Svc advertises it
+export type HttpVersion = 'auto' | '1.1' | '2' | '3';
+
+// Pin a host and port to fixed addresses instead of resolving it (--resolve)
+export interface ResolveEntry {
+    host: string; // '*' matches every host
+    port?: number; // Default 443
+    address: string | string[]; // Tried in order
+}
+
+// Connect to another host and/or port than the URL names, keeping its Host, SNI and certificate checks (--connect-to)
+export interface ConnectToEntry {
+    host?: string; // Requests for this host; any host when unset
+    port?: number; // ... on this port; any port when unset
+    toHost?: string; // Connect here instead; the original host when unset
+    toPort?: number; // ... on this port; the original port when unset
+}
+
+// DNS and routing controls, set per request or as instance defaults
+export interface RoutingOptions {
+    resolve?: Array<ResolveEntry | string>; // Strings are passed as-is, e.g. 'example.com:443:203.0.113.7'
+    connectTo?: Array<ConnectToEntry | string>; // Strings are passed as-is, e.g. 'example.com:443:edge.example.net:443'
+    dohUrl?: string; // Resolve names over DNS-over-HTTPS instead of the system resolver
+    ipVersion?: 4 | 6; // Only use IPv4 or IPv6 addresses
+    localAddress?: string; // Source address to connect from; must be configured on the host
+    interface?: string; // Network interface to connect through
+}
+
+// TLS to an https proxy itself, separate from the TLS to the target
+export interface ProxyTlsOptions extends TlsOptions {
+    verify?: boolean; // false skips verifying the proxy's certificate (--proxy-insecure)
+}
+
+// PEM material is given as a file path, or in memory as a Buffer or a string starting with -----BEGIN
+export type PemSource = string | Buffer;
+
+// Client certificates, trusted CAs and public key pinning; request values override the instance's per field
+export interface TlsOptions {
+    clientCert?: PemSource; // Certificate (chain) presented for mTLS
+    clientKey?: PemSource; // Its private key, if not in clientCert
+    passphrase?: string; // Decrypts clientKey
+    caBundle?: PemSource; // CA certificates to verify the server with, instead of the system store
+    pinnedPublicKey?: string | string[]; // 'sha256//<base64>' hashes, or a PEM/DER public key; fails with CertificatePinError
+}
+
+// Statuses a request rejects with HttpStatusError: true for 400 and up, codes and [min, max] ranges, or a predicate
+export type StatusRule = boolean | Array<number | [number, number]> | ((statusCode: number, response: HttpResponse) => boolean);
+
+export interface RequestOptions extends RoutingOptions {
     method?: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS';
     headers?: Record<string, string>;
     explicitFingerprintHeaders?: string[];
-    body?: string | Buffer;
-    timeout?: number;
+    body?: string | Buffer | Readable; // Sent as-is; streams are uploaded chunked
+    timeout?: number; // Milliseconds; same as totalTimeoutMs
+    totalTimeoutMs?: number; // Whole request, including redirects and the body transfer
+    connectTimeoutMs?: number; // DNS, TCP, proxy and TLS setup
+    stallTimeoutMs?: number; // Give up when the transfer stays below lowSpeedLimit for this long
+    lowSpeedLimit?: number; // Bytes per second counted as stalled, default 1
     followRedirects?: boolean;
     maxRedirects?: number;
+    httpVersion?: HttpVersion; // Overrides the fingerprint's; default 'auto'
+    altSvc?: AltSvcCache; // Learns HTTP/3 support from Alt-Svc headers; 'auto' requests then use HTTP/3
+    redirectMode?: 'curl' | 'library'; // 'library' follows each hop itself, updating cookies, Referer and Sec-Fetch-Site
     verifySSL?: boolean;
-    proxy?: ProxyConfig;
-    cookies?: Record<string, string>;
-    formData?: Record<string, string | Buffer>;
+    tls?: TlsOptions;
+    proxy?: ProxyConfig | string; // Strings are read with parseProxy()
+    cookies?: Record<string, string>; // Sent as given, replacing jar cookies of the same name
+    cookieJar?: CookieJar; // Cookies to send are read from it and Set-Cookie headers stored in it
+    form?: Record<string, string | number | boolean | Array<string | number | boolean>> | URLSearchParams; // application/x-www-form-urlencoded
+    formData?: Record<string, FormDataValue | FormDataValue[]>; // multipart/form-data
     json?: any;
     session?: ScrapingSession;
     bypassCloudflare?: boolean;
+    responseType?: 'text' | 'buffer'; // 'buffer' leaves body empty and keeps only rawBody
+    charset?: string; // Decode the body with this charset instead of the detected one
+    throwOnStatus?: StatusRule; // Checked on the final response, after redirects
+    validateResponse?: (response: HttpResponse) => true | string; // true accepts the response; a string is why it was rejected
+    signal?: AbortSignal; // Aborting kills the curl process and rejects with AbortError
+    priority?: number; // Position in the curl process queue; higher goes first
+    queueTimeoutMs?: number; // Max wait for a free curl process slot
+    batch?: boolean; // Overrides the instance's batching setting for this request
+}
+
+// One entry of CurlImpersonate.requestBatch()
+export interface BatchRequest {
+    url: string;
+    options?: RequestOptions;
 }
 
 export interface HttpResponse {
     statusCode: number;
     statusText: string;
-    headers: Record<string, string>;
+    headers: Record<string, string>; // Lowercase names; repeated headers are joined with ', '
+    rawHeaders?: Array<[string, string]>; // Final response headers as received, in order, with duplicates
     body: string;
+    rawBody?: Buffer; // Body bytes as received; set on every response curl returns, optional for responses built elsewhere
+    encoding?: string; // Charset body was decoded with, e.g. 'utf-8', 'shift_jis'; unset for responseType 'buffer'
     url: string;
+    redirects?: RedirectHop[]; // Every redirect followed to reach this response, in order
     responseTime: number;
+    timings?: ResponseTimings; // curl's own phase timings, when its write-out was available
+    connection?: ConnectionInfo;
     size: number;
     cloudflareChallenge?: CloudflareChallenge;
     proxyUsed?: ProxyConfig;
 }
 
+// Phase durations in milliseconds, measured by curl for the final transfer
+export interface ResponseTimings {
+    dns: number;
+    tcpConnect: number;
+    proxyConnect?: number; // CONNECT tunnel setup, when tunnelling through a proxy
+    tlsHandshake: number;
+    firstByte: number; // Request sent until the first response byte (server wait)
+    transfer: number; // First byte until the body was fully received
+    redirects: number; // Spent on redirect hops before the final transfer started
+    total: number;
+}
+
+export interface ConnectionInfo {
+    remoteIp?: string;
+    remotePort?: number;
+    localIp?: string;
+    localPort?: number;
+    httpVersion: string; // Negotiated protocol version, e.g. '1.1', '2', '3'
+    alpn?: string;
+    tlsVersion?: string;
+    tlsCipher?: string;
+    proxy: boolean;
+    connectionsOpened: number; // New connections curl had to open (0 when one was reused)
+}
+
+export interface RedirectHop {
+    url: string; // URL that answered with the redirect
+    statusCode: number;
+    headers: Record<string, string>;
+    rawHeaders: Array<[string, string]>;
+}
+
+export interface StreamingResponse {
+    statusCode: number;
+    statusText: string;
+    headers: Record<string, string>;
+    rawHeaders: Array<[string, string]>;
+    url: string;
+    redirects: RedirectHop[];
+    body: Readable; // Also usable as an async iterator of Buffer chunks
+}
+
+export interface DownloadProgress {
+    bytesDownloaded: number;
+    totalBytes?: number; // Unknown when the server sends no Content-Length
+    bytesPerSecond: number;
+}
+
+export interface DownloadOptions extends RequestOptions {
+    resume?: boolean; // Resume a transfer this call started when it is interrupted (default: true)
+    resumeExisting?: boolean; // Continue a file already at the path instead of replacing it (default: false)
+    maxResumeAttempts?: number;
+    expectedSize?: number;
+    sha256?: string; // Hex digest the completed file must match
+    onProgress?: (progress: DownloadProgress) => void;
+}
+
+export interface DownloadResult {
+    path: string;
+    size: number;
+    statusCode: number;
+    headers: Record<string, string>;
+    url: string;
+    resumed: boolean;
+    attempts: number;
+    duration: number;
+    sha256?: string;
+}
+
 export interface JsonResponse<T = any> extends HttpResponse {
     data: T;
 }
@@ -223,11 +393,41 @@ export const CURL_ERROR_CODES: Record<number, { name: string; description: strin
     101: { name: 'CURLE_ECH_REQUIRED', description: 'ECH was attempted but failed.', retryable: true }
 };
 
-export interface CurlImpersonateConfig {
-    binariesPath?: string;
-    defaultTimeout?: number;
+export interface CurlImpersonateConfig extends RoutingOptions {
+    binaryPath?: string; // Full path to the binary; takes precedence over binariesPath
+    binariesPath?: string; // Directory with a binary named curl-impersonate
+    defaultTimeout?: number; // Milliseconds; same as defaultTotalTimeoutMs
+    defaultTotalTimeoutMs?: number;
+    defaultConnectTimeoutMs?: number;
+    defaultStallTimeoutMs?: number;
+    scheduler?: ProcessScheduler; // Defaults to the scheduler shared by all instances
+    batching?: BatchingConfig;
+    transport?: Transport; // Runs curl; defaults to the resolved binary, MockTransport for offline tests
+    unsupportedOptions?: 'error' | 'drop'; // When the binary lacks a fingerprint option: fail (default) or drop it, logged once under DEBUG_CURL
     defaultMaxRedirects?: number;
     defaultVerifySSL?: boolean;
+    tls?: TlsOptions; // Defaults for every request
+    proxy?: ProxyConfig | string; // For requests without their own
+    noProxy?: string | string[]; // Hosts the instance proxy is not used for, in no_proxy syntax; a request's own proxy is always used
+    proxyFromEnv?: boolean; // Without any other proxy, use http_proxy/https_proxy/all_proxy and no_proxy
+    cookieJar?: CookieJar; // Used by requests that don't pass their own
+}
+
+// What the resolved curl binary reports about itself
+export interface CurlCapabilities {
+    path: string;
+    version: string; // e.g. '8.1.1'
+    libcurlVersion?: string;
+    sslBackend?: string; // e.g. 'BoringSSL'
+    protocols: string[];
+    features: string[]; // e.g. 'HTTP2', 'alt-svc', 'brotli'
+    options: string[]; // Long options from --help all, e.g. '--tls-permute-extensions'; empty if unavailable
+}
+
+// Same-origin requests queued together run as parallel transfers of one curl process, sharing its connection
+export interface BatchingConfig {
+    enabled?: boolean; // Default false; requestBatch() batches regardless
+    maxBatchSize?: number; // Transfers per curl process, all run in parallel; default 8
 }
 
 // Scraping result types